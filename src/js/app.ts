@@ -6,14 +6,48 @@
 // Import styles
 import '../../input.css';
 
-import init, {
-    cropPdf,
-    detectBbox,
-    WasmCropOptions
-} from '../../pkg/pdfcrop';
-
-import { PDFViewer, createPDFViewer } from './pdf-viewer';
+import {
+    MAX_SCALE,
+    MIN_SCALE,
+    PDFViewer,
+    PasswordCancelledError,
+    PasswordRequiredError,
+    createPDFViewer,
+    getPDFPageCount
+} from './pdf-viewer';
+import type { ZoomAnchor } from './pdf-viewer';
+import { pdfBboxToCanvasRect } from './coordinates';
 import { BBoxOverlay, createBBoxOverlay } from './bbox-overlay';
+import { CropWorker, OperationCancelledError, createCropWorker } from './crop-worker';
+import { BatchQueue, createBatchQueue } from './batch-queue';
+import { CropPreview, createCropPreview } from './crop-preview';
+import { ThumbnailRenderer, createThumbnailRenderer } from './thumbnail-renderer';
+import { ErrorToast, createErrorToast } from './error-toast';
+import { AppError, buildDiagnosticReport, toAppError } from './errors';
+import type { DiagnosticContext } from './errors';
+import { createZip, crc32 } from './zip';
+import type { ZipEntry } from './zip';
+import { EditHistory, createEditHistory } from './history';
+import { SessionStore, createSessionStore } from './session-store';
+import { createPreset, fitPresetToDocument, parsePreset } from './preset';
+import type { PresetPageRange } from './preset';
+import type { CropSettings } from './worker-protocol';
+import {
+    computePaperBboxes,
+    computeUniformBboxes,
+    findOutlierPages,
+    formatLength,
+    getPaperSize,
+    formatPageRange,
+    getOutputPages,
+    getParityPages,
+    parsePageRange,
+    parseAspectRatio,
+    scaleBboxToPage,
+    unitToPoints,
+    validateBboxInPage
+} from './utils';
+import type { LengthUnit, PageSize, UniformSizeMode } from './utils';
 
 // PDF Bounding Box interface
 interface PDFBBox {
@@ -23,14 +57,71 @@ interface PDFBBox {
     top: number;
 }
 
+// Undoable editor state: page bboxes, review flags, page rotations and crop control values
+interface EditorState {
+    bboxes: [number, PDFBBox][];
+    reviewPages: number[];
+    rotations?: [number, number][];  // Missing in sessions saved by older versions
+    excludedPages?: number[];        // Missing in sessions saved by older versions
+    pageOrder?: number[];            // Missing in sessions saved by older versions
+    controls: Record<string, string | boolean>;
+}
+
+// Bbox editor: edit the four edges, or the bottom-left corner plus size
+type BboxEditMode = 'edges' | 'size';
+
+// Bbox editor field labels per mode
+const BBOX_FIELD_LABELS: Record<BboxEditMode, string[]> = {
+    edges: ['Left', 'Bottom', 'Right', 'Top'],
+    size: ['X', 'Y', 'Width', 'Height']
+};
+
+// Controls whose values are part of the undo history
+const HISTORY_CONTROL_IDS = [
+    'uniform-margin',
+    'margin-left',
+    'margin-right',
+    'margin-top',
+    'margin-bottom',
+    'shrink-to-content',
+    'clip-content',
+    'uniform-size-mode',
+    'paper-size',
+    'aspect-ratio',
+    'page-range-select',
+    'page-range-text'
+];
+
 // Global state
 let pdfViewer: PDFViewer | null = null;
 let bboxOverlay: BBoxOverlay | null = null;
+let cropWorker: CropWorker | null = null;
+let batchQueue: BatchQueue | null = null;
+let cropPreview: CropPreview | null = null;
+let thumbnailRenderer: ThumbnailRenderer | null = null;
+let errorToast: ErrorToast | null = null;
+const editHistory: EditHistory<EditorState> = createEditHistory<EditorState>({
+    onChange: () => {
+        updateHistoryButtons();
+        scheduleSessionSave();
+    }
+});
+const sessionStore: SessionStore<EditorState> | null = SessionStore.isSupported() ? createSessionStore<EditorState>() : null;
+let currentSessionId: string | null = null;  // Saved session of the open document
+let sessionSaveTimeout: number | undefined;
+let batchCancelRequested: boolean = false;
 let currentPDFData: Uint8Array | null = null;  // Store PDF data as Uint8Array
 let currentPDFFilename: string = 'document.pdf';  // Store original filename
 let currentPage: number = 1;
 let totalPages: number = 0;
 let pageBboxes: Map<number, PDFBBox> = new Map();  // page_num → {left, bottom, right, top}
+let reviewPages: Set<number> = new Set();  // 0-indexed pages flagged by batch detection
+let pageRotations: Map<number, number> = new Map();  // page_num → extra clockwise rotation (90/180/270)
+let excludedPages: Set<number> = new Set();  // 0-indexed pages left out of the output
+let pageOrder: number[] = [];  // 0-indexed pages in output (sidebar) order
+let draggedPage: number | null = null;  // Thumbnail being dragged to a new position
+let previewPageMap: number[] | null = null;  // Original page (0-indexed) of each page of the crop preview
+let selectionAnchor: number | null = null;  // 0-indexed page a Shift-click selects from
 let clipHintTimeout: number | undefined;
 
 /**
@@ -40,9 +131,13 @@ async function initialize() {
     console.log('Initializing pdfcrop web app...');
 
     try {
-        // Initialize WASM module
-        await init();
-        console.log('WASM module initialized successfully');
+        // Errors of later operations are shown in a toast
+        errorToast = createErrorToast();
+
+        // Initialize WASM module in the processing worker
+        cropWorker = createCropWorker();
+        await cropWorker.initialize();
+        console.log('WASM worker initialized successfully');
 
         // Initialize PDF viewer
         pdfViewer = createPDFViewer('pdf-canvas', 'overlay-canvas');
@@ -63,14 +158,79 @@ async function initialize() {
                     pageBboxes.set(currentPage - 1, pdfBbox);
                     updateBboxDisplay(pdfBbox);
                     autoEnableClipMode();
+
+                    // A manually adjusted page counts as reviewed
+                    reviewPages.delete(currentPage - 1);
+                    updateReviewDisplay();
+                    updateThumbnailBbox(currentPage - 1);
+                    updateUniformSizePreview();
+                    recordHistory();
                 }
             }
         });
         console.log('BBox overlay initialized');
 
+        // At deep zoom only the visible part of the page is rendered; redraw the box when it moves
+        pdfViewer.onRegionChange = () => bboxOverlay?.redraw();
+
+        // Encrypted PDFs ask for their password while loading
+        pdfViewer.onPasswordRequest = requestPassword;
+
+        // Render sidebar thumbnails as they scroll into view
+        thumbnailRenderer = createThumbnailRenderer({
+            root: document.getElementById('thumbnail-sidebar'),
+            renderPage: async (pageNum, canvas, signal) => {
+                if (!pdfViewer) return;
+                // Let the canvas take the sidebar width again before measuring
+                canvas.style.width = '100%';
+                canvas.style.height = 'auto';
+                await pdfViewer.renderThumbnail(pageNum, canvas, 0, signal);
+            }
+        });
+
+        // Initialize cropped result preview
+        cropPreview = createCropPreview({
+            onDownload: (data, filename) => downloadPDF(data, filename),
+            onClose: () => {
+                // Back to editing
+                bboxOverlay?.enable();
+            },
+            onPageChange: (previewPage) => {
+                // Keep the original on the same page for comparison
+                const pageNum = previewPageMap ? (previewPageMap[previewPage - 1] ?? -1) + 1 : previewPage;
+                if (pdfViewer && pageNum > 0 && pageNum !== currentPage && pageNum <= totalPages) {
+                    pdfViewer.goToPage(pageNum).catch(err => {
+                        console.error('Error syncing original page:', err);
+                    });
+                }
+            },
+            onLayoutChange: () => {
+                if (pdfViewer && currentPDFData && !pdfViewer.isManuallyScaled()) {
+                    pdfViewer.fitToPage().then(updateZoomLevel).catch(err => {
+                        console.error('Error refitting page:', err);
+                    });
+                }
+            }
+        });
+        console.log('Crop preview initialized');
+
+        // Initialize batch queue (multi-file mode)
+        batchQueue = createBatchQueue('batch-queue-list', {
+            onSelect: (index) => {
+                selectBatchFile(index).catch(err => {
+                    console.error('Error opening batch file:', err);
+                });
+            }
+        });
+
         // Set up event listeners
         setupEventListeners();
 
+        // Offer to restore documents saved in earlier visits
+        renderRecentDocuments().catch(err => {
+            console.warn('Could not list saved sessions:', err);
+        });
+
         console.log('Application ready!');
     } catch (error) {
         console.error('Failed to initialize application:', error);
@@ -106,9 +266,9 @@ function setupEventListeners() {
         e.preventDefault();
         dropZone.classList.remove('border-primary-500', 'bg-primary-50/50');
 
-        const files = e.dataTransfer?.files;
-        if (files && files.length > 0 && files[0].type === 'application/pdf') {
-            await handleFileUpload(files[0]);
+        const files = Array.from(e.dataTransfer?.files || []).filter(isPDFFile);
+        if (files.length > 0) {
+            await handleFiles(files);
         } else {
             alert('Please drop a PDF file');
         }
@@ -124,10 +284,35 @@ function setupEventListeners() {
     fileInput.addEventListener('change', async (e) => {
         const target = e.target as HTMLInputElement;
         if (target.files && target.files.length > 0) {
-            await handleFileUpload(target.files[0]);
+            await handleFiles(Array.from(target.files));
         }
     });
 
+    // Forget all saved documents
+    const forgetAllButton = document.getElementById('recent-forget-all') as HTMLButtonElement;
+    if (forgetAllButton) {
+        forgetAllButton.addEventListener('click', () => {
+            if (confirm('Delete all saved documents and crop settings from this browser?')) {
+                forgetSession(null).catch(err => {
+                    console.error('Error forgetting sessions:', err);
+                });
+            }
+        });
+    }
+
+    // Cancel button in loading overlay
+    const loadingCancelButton = document.getElementById('loading-cancel') as HTMLButtonElement;
+    if (loadingCancelButton) {
+        loadingCancelButton.addEventListener('click', () => {
+            batchCancelRequested = true;
+            if (cropWorker && cropWorker.isBusy()) {
+                loadingCancelButton.disabled = true;
+                updateLoadingProgress(null, 'Cancelling...');
+                cropWorker.cancel();
+            }
+        });
+    }
+
     // Margin controls
     const uniformMargin = document.getElementById('uniform-margin') as HTMLInputElement;
     const marginLeft = document.getElementById('margin-left') as HTMLInputElement;
@@ -181,13 +366,123 @@ function setupEventListeners() {
             } else {
                 customRangeInput.classList.add('hidden');
             }
+            updatePageRangeHighlight();
+            updateUniformSizePreview();
+        });
+    }
+
+    const pageRangeText = document.getElementById('page-range-text') as HTMLInputElement;
+    if (pageRangeText) {
+        // Check the range while typing
+        pageRangeText.addEventListener('input', updatePageRangeHighlight);
+        pageRangeText.addEventListener('change', updateUniformSizePreview);
+    }
+
+    // Uniform page size mode
+    const uniformSizeMode = document.getElementById('uniform-size-mode') as HTMLSelectElement;
+    if (uniformSizeMode) {
+        uniformSizeMode.addEventListener('change', updateUniformSizePreview);
+    }
+
+    // Fit into paper size (replaces uniform page size while active)
+    const paperSize = document.getElementById('paper-size') as HTMLSelectElement;
+    if (paperSize) {
+        paperSize.addEventListener('change', () => {
+            updatePaperSizeControls();
+            updateUniformSizePreview();
+        });
+    }
+
+    // Aspect ratio lock
+    const aspectRatio = document.getElementById('aspect-ratio') as HTMLSelectElement;
+    if (aspectRatio) {
+        aspectRatio.addEventListener('change', () => {
+            applyAspectRatio();
+            // Bring the current box to the new ratio
+            bboxOverlay?.fitToAspectRatio();
+        });
+    }
+
+    // Numeric bbox editor
+    for (let index = 0; index < 4; index++) {
+        const field = document.getElementById(`bbox-field-${index}`) as HTMLInputElement | null;
+        if (!field) continue;
+        field.addEventListener('input', () => {
+            handleBboxFieldInput(index, false).catch(err => console.error('Error editing bbox:', err));
+        });
+        field.addEventListener('change', () => {
+            handleBboxFieldInput(index, true).catch(err => console.error('Error editing bbox:', err));
+        });
+    }
+
+    ['bbox-edit-mode', 'bbox-unit'].forEach(id => {
+        document.getElementById(id)?.addEventListener('change', () => {
+            updateBboxDisplay(pageBboxes.get(currentPage - 1) ?? null);
+        });
+    });
+
+    // Apply crop box to other pages
+    const applyBboxTarget = document.getElementById('apply-bbox-target') as HTMLSelectElement;
+    const applyBboxRangeInput = document.getElementById('apply-bbox-range-input') as HTMLDivElement;
+    const applyBboxButton = document.getElementById('apply-bbox-button') as HTMLButtonElement;
+
+    if (applyBboxTarget && applyBboxRangeInput) {
+        applyBboxTarget.addEventListener('change', () => {
+            applyBboxRangeInput.classList.toggle('hidden', applyBboxTarget.value !== 'custom');
+        });
+    }
+
+    if (applyBboxButton) {
+        applyBboxButton.addEventListener('click', handleApplyBbox);
+    }
+
+    // Preset export / import
+    const exportPresetButton = document.getElementById('export-preset-button') as HTMLButtonElement;
+    const importPresetButton = document.getElementById('import-preset-button') as HTMLButtonElement;
+    const presetFileInput = document.getElementById('preset-file-input') as HTMLInputElement;
+
+    if (exportPresetButton) {
+        exportPresetButton.addEventListener('click', () => {
+            handleExportPreset().catch(err => {
+                console.error('Error exporting preset:', err);
+            });
+        });
+    }
+
+    if (importPresetButton && presetFileInput) {
+        importPresetButton.addEventListener('click', () => presetFileInput.click());
+        presetFileInput.addEventListener('change', async () => {
+            const file = presetFileInput.files?.[0];
+            // Reset so the same file can be imported again
+            presetFileInput.value = '';
+            if (file) {
+                await handleImportPreset(file);
+            }
         });
     }
 
+    // Bulk rotation of the pages in the page range
+    const rotateLeftButton = document.getElementById('rotate-left-button') as HTMLButtonElement;
+    const rotateRightButton = document.getElementById('rotate-right-button') as HTMLButtonElement;
+    const getRotationPages = () => getPageRange() ?? Array.from({ length: totalPages }, (_, i) => i);
+
+    if (rotateLeftButton) {
+        rotateLeftButton.addEventListener('click', () => rotatePages(getRotationPages(), -90));
+    }
+    if (rotateRightButton) {
+        rotateRightButton.addEventListener('click', () => rotatePages(getRotationPages(), 90));
+    }
+
     // Crop button
     const cropButton = document.getElementById('crop-button') as HTMLButtonElement;
     if (cropButton) {
-        cropButton.addEventListener('click', handleCrop);
+        cropButton.addEventListener('click', () => handleCrop());
+    }
+
+    // Batch crop button
+    const batchCropButton = document.getElementById('batch-crop-button') as HTMLButtonElement;
+    if (batchCropButton) {
+        batchCropButton.addEventListener('click', handleBatchCrop);
     }
 
     // Auto-detect button
@@ -196,6 +491,12 @@ function setupEventListeners() {
         autoDetectButton.addEventListener('click', handleAutoDetect);
     }
 
+    // Batch auto-detect button
+    const autoDetectAllButton = document.getElementById('auto-detect-all-button') as HTMLButtonElement;
+    if (autoDetectAllButton) {
+        autoDetectAllButton.addEventListener('click', handleAutoDetectAll);
+    }
+
     // Page navigation
     const prevPageButton = document.getElementById('prev-page') as HTMLButtonElement;
     const nextPageButton = document.getElementById('next-page') as HTMLButtonElement;
@@ -221,21 +522,95 @@ function setupEventListeners() {
     if (resetButton) {
         resetButton.addEventListener('click', () => {
             pageBboxes.clear();
+            reviewPages.clear();
+            updateReviewDisplay();
+            updateAllThumbnailBboxes();
             if (bboxOverlay) {
                 bboxOverlay.clear();
             }
             // Hide bbox display
-            const bboxDisplay = document.getElementById('detected-bbox');
-            if (bboxDisplay) {
-                bboxDisplay.classList.add('hidden');
+            updateBboxDisplay(null);
+            updateUniformSizePreview();
+            recordHistory();
+        });
+    }
+
+    // Undo / redo
+    const undoButton = document.getElementById('undo-button') as HTMLButtonElement;
+    const redoButton = document.getElementById('redo-button') as HTMLButtonElement;
+    if (undoButton) {
+        undoButton.addEventListener('click', handleUndo);
+    }
+    if (redoButton) {
+        redoButton.addEventListener('click', handleRedo);
+    }
+
+    // Record crop control changes in the undo history
+    HISTORY_CONTROL_IDS.forEach(id => {
+        document.getElementById(id)?.addEventListener('change', recordHistory);
+    });
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac), Ctrl+Y
+    document.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey) || !currentPDFData) return;
+
+        // Leave native undo to text fields
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) {
+            return;
+        }
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    });
+
+    // Keyboard shortcuts and their help dialog
+    document.addEventListener('keydown', handleShortcutKey);
+    document.getElementById('shortcuts-button')?.addEventListener('click', () => toggleShortcutsDialog(true));
+    document.getElementById('shortcuts-close')?.addEventListener('click', () => toggleShortcutsDialog(false));
+    document.getElementById('shortcuts-dialog')?.addEventListener('click', (e) => {
+        // Close when clicking the backdrop
+        if (e.target === e.currentTarget) {
+            toggleShortcutsDialog(false);
+        }
+    });
+
+    // Thumbnail actions menu
+    const thumbnailMenu = document.getElementById('thumbnail-menu');
+    if (thumbnailMenu) {
+        thumbnailMenu.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => {
+            button.addEventListener('click', () => {
+                handleThumbnailMenuAction(button.dataset.action || '').catch(err => {
+                    console.error('Error running thumbnail action:', err);
+                });
+            });
+        });
+
+        // Close on any click outside the menu, Escape or scrolling the sidebar
+        document.addEventListener('mousedown', (e) => {
+            if (!thumbnailMenu.contains(e.target as Node)) {
+                hideThumbnailMenu();
             }
         });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                hideThumbnailMenu();
+            }
+        });
+        document.getElementById('thumbnail-sidebar')?.addEventListener('scroll', hideThumbnailMenu);
     }
 
     // Zoom controls
     const zoomInButton = document.getElementById('zoom-in') as HTMLButtonElement;
     const zoomOutButton = document.getElementById('zoom-out') as HTMLButtonElement;
     const zoomFitButton = document.getElementById('zoom-fit') as HTMLButtonElement;
+    const zoomFitWidthButton = document.getElementById('zoom-fit-width') as HTMLButtonElement;
 
     if (zoomInButton) {
         zoomInButton.addEventListener('click', async () => {
@@ -264,6 +639,28 @@ function setupEventListeners() {
         });
     }
 
+    if (zoomFitWidthButton) {
+        zoomFitWidthButton.addEventListener('click', async () => {
+            if (pdfViewer) {
+                await pdfViewer.fitToWidth();
+                updateZoomLevel();
+            }
+        });
+    }
+
+    // Single page / continuous scroll
+    const viewModeButton = document.getElementById('view-mode-button') as HTMLButtonElement;
+    if (viewModeButton) {
+        viewModeButton.addEventListener('click', async () => {
+            if (!pdfViewer) return;
+            const continuous = pdfViewer.getViewMode() !== 'continuous';
+            viewModeButton.classList.toggle('bg-gray-200', continuous);
+            viewModeButton.title = continuous ? 'Single Page' : 'Continuous Scroll';
+            await pdfViewer.setViewMode(continuous ? 'continuous' : 'single');
+            updateZoomLevel();
+        });
+    }
+
     // Add touchpad/wheel zoom support for PDF canvas area
     const canvasContainer = document.getElementById('canvas-container');
     if (canvasContainer) {
@@ -282,11 +679,47 @@ function setupEventListeners() {
                 const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
                 const newScale = currentScale * zoomFactor;
 
-                // Apply new scale
-                await pdfViewer.setScale(newScale);
+                // Apply new scale, keeping the point under the cursor in place
+                await pdfViewer.setScale(newScale, { clientX: e.clientX, clientY: e.clientY });
                 updateZoomLevel();
             }
         }, { passive: false }); // passive: false allows preventDefault
+
+        // Pinch zoom on touch screens: scale the page with CSS while pinching,
+        // then re-render once at the final scale
+        const stage = document.getElementById('pdf-canvas')?.parentElement;
+        let pinch: { distance: number; scale: number; anchor: ZoomAnchor; factor: number } | null = null;
+
+        canvasContainer.addEventListener('touchstart', (e) => {
+            if (e.touches.length !== 2 || !pdfViewer || !stage) return;
+            e.preventDefault();
+
+            const anchor = getTouchCenter(e.touches);
+            const rect = stage.getBoundingClientRect();
+            stage.style.transformOrigin = `${anchor.clientX - rect.left}px ${anchor.clientY - rect.top}px`;
+            pinch = { distance: getTouchDistance(e.touches), scale: pdfViewer.getScale(), anchor, factor: 1 };
+        }, { passive: false });
+
+        canvasContainer.addEventListener('touchmove', (e) => {
+            if (!pinch || e.touches.length !== 2 || !stage) return;
+            e.preventDefault();
+
+            const factor = getTouchDistance(e.touches) / pinch.distance;
+            pinch.factor = Math.max(MIN_SCALE / pinch.scale, Math.min(MAX_SCALE / pinch.scale, factor));
+            stage.style.transform = `scale(${pinch.factor})`;
+        }, { passive: false });
+
+        canvasContainer.addEventListener('touchend', async (e) => {
+            if (!pinch || e.touches.length >= 2 || !stage) return;
+
+            const { scale, anchor, factor } = pinch;
+            pinch = null;
+            stage.style.transform = '';
+            if (pdfViewer && factor !== 1) {
+                await pdfViewer.setScale(scale * factor, anchor);
+                updateZoomLevel();
+            }
+        });
     }
 
     // Handle window resize - refit the page if not manually zoomed
@@ -302,6 +735,9 @@ function setupEventListeners() {
                     updateZoomLevel();
                 }
             }
+            if (cropPreview) {
+                await cropPreview.refit();
+            }
         }, 250);
     });
 
@@ -319,10 +755,8 @@ function setupEventListeners() {
                 console.error('Error re-rendering page after DPI change:', err);
             });
 
-            // Re-generate thumbnails for crisp rendering
-            generateThumbnails().catch(err => {
-                console.error('Error re-generating thumbnails after DPI change:', err);
-            });
+            // Re-render visible thumbnails for crisp rendering
+            thumbnailRenderer?.invalidateAll();
         }
 
         // Re-attach listener for next DPI change
@@ -333,6 +767,200 @@ function setupEventListeners() {
     matchMedia(`(resolution: ${currentDPR}dppx)`).addEventListener('change', updateDPR, { once: true });
 }
 
+/**
+ * Handle single-key shortcuts for navigation, zoom, detection and bbox nudging
+ */
+function handleShortcutKey(e: KeyboardEvent): void {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+
+    // Leave keys to text fields and controls
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' ||
+        target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+    }
+
+    // The help dialog only reacts to closing keys
+    if (isShortcutsDialogOpen()) {
+        if (e.key === 'Escape' || e.key === '?') {
+            e.preventDefault();
+            toggleShortcutsDialog(false);
+        }
+        return;
+    }
+
+    if (e.key === '?') {
+        e.preventDefault();
+        toggleShortcutsDialog(true);
+        return;
+    }
+
+    // Everything else needs a document and no running operation
+    const loadingOverlay = document.getElementById('loading-overlay');
+    if (!currentPDFData || !pdfViewer || (loadingOverlay && !loadingOverlay.classList.contains('hidden'))) {
+        return;
+    }
+
+    const viewer = pdfViewer;
+    const editing = !!bboxOverlay && !cropPreview?.isVisible();
+    const step = e.shiftKey ? 10 : 1;  // PDF points
+    let handled = true;
+    let action: Promise<unknown> | null = null;
+
+    switch (e.key) {
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'ArrowUp':
+        case 'ArrowDown': {
+            // Nudge the selected edge, otherwise change page
+            if (editing && bboxOverlay && bboxOverlay.getNudgeTarget()) {
+                const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+                const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+                bboxOverlay.nudge(dx, dy);
+            } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+                action = viewer.previousPage();
+            } else {
+                action = viewer.nextPage();
+            }
+            break;
+        }
+        case 'PageUp':
+            action = viewer.previousPage();
+            break;
+        case 'PageDown':
+            action = viewer.nextPage();
+            break;
+        case 'Home':
+            action = viewer.goToPage(1);
+            break;
+        case 'End':
+            action = viewer.goToPage(totalPages);
+            break;
+        case '+':
+        case '=':
+            action = viewer.zoomIn().then(updateZoomLevel);
+            break;
+        case '-':
+        case '_':
+            action = viewer.zoomOut().then(updateZoomLevel);
+            break;
+        case '0':
+            action = viewer.fitToPage().then(updateZoomLevel);
+            break;
+        case 'w':
+        case 'W':
+            action = viewer.fitToWidth().then(updateZoomLevel);
+            break;
+        case 'd':
+        case 'D':
+            if (editing) {
+                action = handleAutoDetect();
+            }
+            break;
+        case 'e':
+        case 'E':
+            if (editing && bboxOverlay) {
+                bboxOverlay.selectNextNudgeTarget();
+            }
+            break;
+        case 'Escape':
+            bboxOverlay?.selectNudgeTarget(null);
+            break;
+        default:
+            handled = false;
+    }
+
+    if (handled) {
+        e.preventDefault();
+    }
+    if (action) {
+        action.catch(err => console.error(`Error handling shortcut "${e.key}":`, err));
+    }
+}
+
+/**
+ * Check whether the keyboard shortcuts dialog is shown
+ */
+function isShortcutsDialogOpen(): boolean {
+    const dialog = document.getElementById('shortcuts-dialog');
+    return !!dialog && !dialog.classList.contains('hidden');
+}
+
+/**
+ * Show or hide the keyboard shortcuts dialog
+ */
+function toggleShortcutsDialog(show: boolean): void {
+    document.getElementById('shortcuts-dialog')?.classList.toggle('hidden', !show);
+}
+
+/**
+ * Ask for the password of an encrypted PDF
+ * @param incorrect - The previous attempt was wrong
+ * @returns The password, or null if the user cancels
+ */
+function requestPassword(incorrect: boolean): Promise<string | null> {
+    const dialog = document.getElementById('password-dialog');
+    const form = document.getElementById('password-form') as HTMLFormElement | null;
+    const input = document.getElementById('password-input') as HTMLInputElement | null;
+    const cancelButton = document.getElementById('password-cancel');
+    if (!dialog || !form || !input || !cancelButton) {
+        return Promise.resolve(null);
+    }
+
+    // The prompt replaces the loading indicator until it is answered
+    hideLoading();
+    input.value = '';
+    document.getElementById('password-error')?.classList.toggle('hidden', !incorrect);
+    dialog.classList.remove('hidden');
+    input.focus();
+
+    return new Promise(resolve => {
+        const finish = (password: string | null) => {
+            form.removeEventListener('submit', onSubmit);
+            cancelButton.removeEventListener('click', onCancel);
+            input.removeEventListener('keydown', onKeyDown);
+            input.value = '';
+            dialog.classList.add('hidden');
+            if (password !== null) {
+                showLoading('Loading PDF...');
+            }
+            resolve(password);
+        };
+        const onSubmit = (e: Event) => {
+            e.preventDefault();
+            finish(input.value);
+        };
+        const onCancel = () => finish(null);
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                finish(null);
+            }
+        };
+
+        form.addEventListener('submit', onSubmit);
+        cancelButton.addEventListener('click', onCancel);
+        input.addEventListener('keydown', onKeyDown);
+    });
+}
+
+/**
+ * Distance between the first two touch points
+ */
+function getTouchDistance(touches: TouchList): number {
+    return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+}
+
+/**
+ * Midpoint of the first two touch points
+ */
+function getTouchCenter(touches: TouchList): ZoomAnchor {
+    return {
+        clientX: (touches[0].clientX + touches[1].clientX) / 2,
+        clientY: (touches[0].clientY + touches[1].clientY) / 2
+    };
+}
+
 /**
  * Update zoom level display
  */
@@ -346,19 +974,113 @@ function updateZoomLevel(): void {
     }
 }
 
+/**
+ * Check whether a file looks like a PDF
+ */
+function isPDFFile(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+/**
+ * Handle one or more selected files
+ * Several files start batch mode: they are queued and the first one is opened.
+ */
+async function handleFiles(files: File[]): Promise<void> {
+    const pdfFiles = files.filter(isPDFFile);
+    if (pdfFiles.length === 0) {
+        alert('Please select a PDF file');
+        return;
+    }
+
+    const batchSection = document.getElementById('batch-section');
+    if (pdfFiles.length > 1) {
+        batchQueue?.setFiles(pdfFiles);
+        batchSection?.classList.remove('hidden');
+    } else {
+        batchQueue?.clear();
+        batchSection?.classList.add('hidden');
+    }
+
+    await handleFileUpload(pdfFiles[0]);
+}
+
+/**
+ * Open a queued batch file in the viewer
+ */
+async function selectBatchFile(index: number): Promise<void> {
+    if (!batchQueue || (cropWorker && cropWorker.isBusy())) return;
+
+    const item = batchQueue.getItems()[index];
+    if (!item) return;
+
+    batchQueue.setActive(index);
+    await handleFileUpload(item.file);
+}
+
 /**
  * Handle file upload
  */
 async function handleFileUpload(file: File): Promise<void> {
     console.log('Loading PDF:', file.name);
-    showLoading('Loading PDF...');
 
+    let data: Uint8Array;
     try {
         // Read file as ArrayBuffer and convert to Uint8Array
         const arrayBuffer = await file.arrayBuffer();
-        currentPDFData = new Uint8Array(arrayBuffer);
-        currentPDFFilename = file.name;
+        data = new Uint8Array(arrayBuffer);
+    } catch (error) {
+        console.error('Error reading file:', error);
+        reportError('Failed to read file', error, { operation: 'read file', fileSize: file.size });
+        return;
+    }
+
+    // Offer the crop state saved for the same document in an earlier visit
+    let savedState: EditorState | null = null;
+    const sessionId = getSessionId(data);
+    if (sessionStore) {
+        try {
+            const saved = await sessionStore.loadSession(sessionId);
+            if (saved && saved.record.state && !isDefaultEditorState(saved.record.state) &&
+                confirm(`Restore the crop boxes and settings saved for "${saved.record.filename}"?`)) {
+                savedState = saved.record.state;
+            }
+        } catch (error) {
+            console.warn('Could not read saved session:', error);
+        }
+    }
+
+    await openDocument(data, file.name, savedState);
+}
+
+/**
+ * Load a document into the viewer and worker
+ * @param data - PDF bytes
+ * @param filename - Original filename
+ * @param savedState - Editor state to restore from a saved session
+ */
+async function openDocument(data: Uint8Array, filename: string, savedState: EditorState | null = null): Promise<void> {
+    showLoading('Loading PDF...');
+
+    // Stop saving state of the previous document
+    window.clearTimeout(sessionSaveTimeout);
+    currentSessionId = null;
+
+    // Drop pending thumbnail renders of the previous document
+    thumbnailRenderer?.reset();
+
+    try {
+        // Close any preview of the previous document
+        cropPreview?.hide();
+
+        currentPDFData = data;
+        currentPDFFilename = filename;
         pageBboxes.clear();
+        reviewPages.clear();
+        pageRotations.clear();
+        excludedPages.clear();
+        pageOrder = [];
+        selectionAnchor = null;
+        updateReviewDisplay();
 
         // Create a copy for PDF.js using slice() to get a new ArrayBuffer
         const pdfCopy = currentPDFData.slice();
@@ -367,10 +1089,21 @@ async function handleFileUpload(file: File): Promise<void> {
         if (!pdfViewer) {
             throw new Error('PDF viewer not initialized');
         }
+        pdfViewer.setPageRotations(pageRotations);
         totalPages = await pdfViewer.loadPDF(pdfCopy);
         currentPage = 1;
+        pageOrder = getOriginalPageOrder();
         console.log('PDF loaded. Total pages:', totalPages);
 
+        // Hand the document to the processing worker, with the password it was opened with
+        if (cropWorker) {
+            cropWorker.cancel();
+            await cropWorker.loadDocument(currentPDFData, totalPages, pdfViewer.getPassword());
+        }
+
+        // Encrypted documents can protect the output with the same password
+        document.getElementById('protect-output-option')?.classList.toggle('hidden', pdfViewer.getPassword() === null);
+
         // Set up PDF viewer callbacks
         if (!pdfViewer) return;
         pdfViewer.onPageChange = (pageNum, total) => {
@@ -391,6 +1124,7 @@ async function handleFileUpload(file: File): Promise<void> {
 
             // Update thumbnail selection highlighting
             updateThumbnailSelection(pageNum);
+            updatePageRangeHighlight();
 
             // Show bbox if exists for this page
             renderBboxOverlay();
@@ -411,6 +1145,12 @@ async function handleFileUpload(file: File): Promise<void> {
         if (prevButton) prevButton.disabled = true;
         if (nextButton) nextButton.disabled = (totalPages === 1);
 
+        // Start a fresh undo history for this document
+        if (savedState) {
+            restoreEditorState(savedState);
+        }
+        editHistory.reset(captureEditorState());
+
         // Generate thumbnails for all pages
         await generateThumbnails();
 
@@ -433,11 +1173,70 @@ async function handleFileUpload(file: File): Promise<void> {
         }, 0);
 
         hideLoading();
+
+        // Save the document so the session survives a reload
+        persistSession(data, filename);
     } catch (error) {
-        console.error('Error loading PDF:', error);
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        alert('Failed to load PDF: ' + errorMessage);
         hideLoading();
+
+        // Nothing is open after cancelling the password prompt
+        if (error instanceof PasswordCancelledError) {
+            console.log('Password entry cancelled:', filename);
+            await closeDocument();
+            return;
+        }
+
+        console.error('Error loading PDF:', error);
+        reportError('Failed to load PDF', error, { operation: 'load', fileSize: data.length });
+    }
+}
+
+/**
+ * Close the current document and go back to the upload screen
+ */
+async function closeDocument(): Promise<void> {
+    await pdfViewer?.close();
+    currentPDFData = null;
+    currentPDFFilename = 'document.pdf';
+    totalPages = 0;
+    currentPage = 1;
+    pageBboxes.clear();
+    reviewPages.clear();
+    pageRotations.clear();
+    excludedPages.clear();
+    pageOrder = [];
+    selectionAnchor = null;
+
+    document.getElementById('app-section')?.classList.add('hidden');
+    document.getElementById('upload-section')?.classList.remove('hidden');
+}
+
+/**
+ * Diagnostic context of the open document (sizes only, no content)
+ */
+function getDocumentDiagnostics(operation: string): DiagnosticContext {
+    return {
+        operation,
+        pageCount: totalPages,
+        fileSize: currentPDFData?.length,
+        encrypted: !!pdfViewer && pdfViewer.getPassword() !== null
+    };
+}
+
+/**
+ * Show a failed operation in the error toast
+ * Cancelled operations are not reported.
+ * @param title - What failed, e.g. "Failed to crop PDF"
+ */
+function reportError(title: string, error: unknown, context: DiagnosticContext): void {
+    const appError = toAppError(error);
+    if (appError.kind === 'cancelled') return;
+
+    const report = buildDiagnosticReport(appError, context);
+    if (errorToast) {
+        errorToast.show(title, appError, report);
+    } else {
+        alert(`${title}: ${appError.message}`);
     }
 }
 
@@ -448,8 +1247,8 @@ async function renderPage(pageNum: number): Promise<void> {
     if (!pdfViewer) return;
 
     try {
+        // onPageChange redraws the bbox overlay once the page is actually shown
         await pdfViewer.renderPage(pageNum);
-        renderBboxOverlay();
     } catch (error) {
         console.error('Error rendering page:', error);
     }
@@ -471,11 +1270,9 @@ function renderBboxOverlay(): void {
     } else {
         bboxOverlay.clear();
         // Hide bbox display
-        const bboxDisplay = document.getElementById('detected-bbox');
-        if (bboxDisplay) {
-            bboxDisplay.classList.add('hidden');
-        }
+        updateBboxDisplay(null);
     }
+    updateUniformSizePreview();
 }
 
 /**
@@ -506,131 +1303,1136 @@ function autoEnableClipMode(): void {
  * Update bbox display panel
  */
 function updateBboxDisplay(bbox: PDFBBox | null): void {
-    const bboxDisplay = document.getElementById('detected-bbox');
-    if (!bboxDisplay) return;
+    const bboxValues = document.getElementById('bbox-values');
+    if (!bboxValues) return;
 
     if (!bbox) {
-        bboxDisplay.classList.add('hidden');
+        bboxValues.classList.add('hidden');
+        updateBboxPanelVisibility();
         return;
     }
 
-    const width = bbox.right - bbox.left;
-    const height = bbox.top - bbox.bottom;
+    const mode = getBboxEditMode();
+    const unit = getBboxUnit();
+
+    getBboxFieldValues(bbox, mode).forEach((value, index) => {
+        const label = document.getElementById(`bbox-field-${index}-label`);
+        const input = document.getElementById(`bbox-field-${index}`) as HTMLInputElement | null;
+        if (label) label.textContent = BBOX_FIELD_LABELS[mode][index];
+        // Don't overwrite a value while it is being typed
+        if (input && document.activeElement !== input) {
+            input.value = formatLength(value, unit);
+        }
+    });
+
+    const sizeEl = document.getElementById('bbox-size');
+    if (sizeEl) {
+        const width = formatLength(bbox.right - bbox.left, unit);
+        const height = formatLength(bbox.top - bbox.bottom, unit);
+        sizeEl.textContent = `Size: ${width} × ${height} ${unit}`;
+    }
 
-    bboxDisplay.innerHTML = `
-        Left: ${bbox.left.toFixed(2)}<br>
-        Bottom: ${bbox.bottom.toFixed(2)}<br>
-        Right: ${bbox.right.toFixed(2)}<br>
-        Top: ${bbox.top.toFixed(2)}<br>
-        Size: ${width.toFixed(2)} × ${height.toFixed(2)} pt
-    `;
-    bboxDisplay.classList.remove('hidden');
+    showBboxError(null);
+    bboxValues.classList.remove('hidden');
+    updateBboxPanelVisibility();
 }
 
 /**
- * Update thumbnail selection highlighting
+ * Get the selected bbox editor mode
  */
-function updateThumbnailSelection(pageNum: number): void {
-    // Remove highlighting from all thumbnails
-    document.querySelectorAll('.thumbnail-item canvas').forEach(canvas => {
-        canvas.classList.remove('shadow-lg', 'ring-2', 'ring-primary-500', 'border-primary-500');
-        canvas.classList.add('border-gray-200');
-    });
+function getBboxEditMode(): BboxEditMode {
+    const select = document.getElementById('bbox-edit-mode') as HTMLSelectElement | null;
+    return select?.value === 'size' ? 'size' : 'edges';
+}
+
+/**
+ * Get the selected bbox editor unit
+ */
+function getBboxUnit(): LengthUnit {
+    const select = document.getElementById('bbox-unit') as HTMLSelectElement | null;
+    const value = select?.value;
+    return value === 'mm' || value === 'cm' || value === 'in' ? value : 'pt';
+}
+
+/**
+ * Get the values of the bbox editor fields in PDF points
+ */
+function getBboxFieldValues(bbox: PDFBBox, mode: BboxEditMode): number[] {
+    if (mode === 'size') {
+        return [bbox.left, bbox.bottom, bbox.right - bbox.left, bbox.top - bbox.bottom];
+    }
+    return [bbox.left, bbox.bottom, bbox.right, bbox.top];
+}
+
+/**
+ * Change one bbox editor field, keeping the others as they are
+ * In position & size mode, X and Y move the box and width and height resize it.
+ * @param points - New field value in PDF points
+ */
+function applyBboxField(bbox: PDFBBox, mode: BboxEditMode, index: number, points: number): PDFBBox {
+    const width = bbox.right - bbox.left;
+    const height = bbox.top - bbox.bottom;
+
+    if (mode === 'edges') {
+        const edges: (keyof PDFBBox)[] = ['left', 'bottom', 'right', 'top'];
+        return { ...bbox, [edges[index]]: points };
+    }
+
+    switch (index) {
+        case 0:
+            return { ...bbox, left: points, right: points + width };
+        case 1:
+            return { ...bbox, bottom: points, top: points + height };
+        case 2:
+            return { ...bbox, right: bbox.left + points };
+        default:
+            return { ...bbox, top: bbox.bottom + points };
+    }
+}
+
+/**
+ * Apply a value typed into a bbox editor field
+ * Valid values update the box live; invalid ones show an error and are
+ * reverted when the field is committed.
+ * @param commit - true on change (Enter/blur), false while typing
+ */
+async function handleBboxFieldInput(index: number, commit: boolean): Promise<void> {
+    const pageIndex = currentPage - 1;
+    const bbox = pageBboxes.get(pageIndex);
+    const input = document.getElementById(`bbox-field-${index}`) as HTMLInputElement | null;
+    if (!bbox || !input || !pdfViewer || !bboxOverlay) return;
+
+    const mode = getBboxEditMode();
+    const unit = getBboxUnit();
+    const updated = applyBboxField(bbox, mode, index, unitToPoints(parseFloat(input.value), unit));
+
+    const pageBox = await pdfViewer.getPageBox(currentPage);
+    if (!pageBox || currentPage - 1 !== pageIndex) return;
+
+    const error = validateBboxInPage(updated, pageBox, unit);
+    if (error) {
+        showBboxError(error);
+        if (commit) {
+            input.value = formatLength(getBboxFieldValues(bbox, mode)[index], unit);
+        }
+        return;
+    }
+
+    pageBboxes.set(pageIndex, updated);
+    bboxOverlay.setBbox(updated);
+    updateBboxDisplay(updated);
+    updateThumbnailBbox(pageIndex);
+    updateUniformSizePreview();
+
+    if (commit) {
+        // Typed values count as a manual adjustment, like drawing
+        autoEnableClipMode();
+        reviewPages.delete(pageIndex);
+        updateReviewDisplay();
+        recordHistory();
+    }
+}
+
+/**
+ * Show or hide the bbox editor validation message
+ */
+function showBboxError(message: string | null): void {
+    const errorEl = document.getElementById('bbox-error');
+    if (!errorEl) return;
+
+    errorEl.textContent = message ?? '';
+    errorEl.classList.toggle('hidden', !message);
+}
+
+/**
+ * Show the bbox panel while any of its sections has content
+ */
+function updateBboxPanelVisibility(): void {
+    const bboxDisplay = document.getElementById('detected-bbox');
+    if (!bboxDisplay) return;
+
+    const hasContent = Array.from(bboxDisplay.children).some(child => !child.classList.contains('hidden'));
+    bboxDisplay.classList.toggle('hidden', !hasContent);
+}
+
+/**
+ * Get the selected uniform page size mode
+ */
+function getUniformSizeMode(): UniformSizeMode {
+    const select = document.getElementById('uniform-size-mode') as HTMLSelectElement | null;
+    const value = select?.value;
+    return value === 'union' || value === 'parity' ? value : 'off';
+}
+
+/**
+ * Get the selected output paper size, or null when off
+ */
+function getSelectedPaperSize(): PageSize | null {
+    const select = document.getElementById('paper-size') as HTMLSelectElement | null;
+    return select ? getPaperSize(select.value) : null;
+}
+
+/**
+ * Disable uniform page size while a paper size is selected (every page gets the paper size anyway)
+ */
+function updatePaperSizeControls(): void {
+    const uniformSizeMode = document.getElementById('uniform-size-mode') as HTMLSelectElement | null;
+    if (uniformSizeMode) {
+        uniformSizeMode.disabled = getSelectedPaperSize() !== null;
+    }
+}
+
+/**
+ * Pass the selected aspect ratio lock to the bbox overlay
+ */
+function applyAspectRatio(): void {
+    const select = document.getElementById('aspect-ratio') as HTMLSelectElement | null;
+    bboxOverlay?.setAspectRatio(select ? parseAspectRatio(select.value) : null);
+}
+
+/**
+ * Get the pages displayed sideways (90° or 270°), including the page's own rotation
+ */
+async function getSidewaysPages(pages: number[]): Promise<Set<number>> {
+    const sideways = new Set<number>();
+    if (!pdfViewer) return sideways;
+
+    for (const page of pages) {
+        const viewport = await pdfViewer.getPageViewport(page + 1);
+        if (viewport && viewport.rotation % 180 !== 0) {
+            sideways.add(page);
+        }
+    }
+    return sideways;
+}
+
+/**
+ * Preview the output size of uniform page size or paper size mode in the bbox panel
+ */
+function updateUniformSizePreview(): void {
+    const preview = document.getElementById('uniform-size-preview');
+    if (!preview) return;
+
+    const paper = getSelectedPaperSize();
+    if (paper && totalPages > 0) {
+        preview.innerHTML = `Paper size: ${paper.width.toFixed(2)} × ${paper.height.toFixed(2)} pt (content centered)`;
+        preview.classList.remove('hidden');
+        updateBboxPanelVisibility();
+        return;
+    }
+
+    const mode = getUniformSizeMode();
+    if (mode === 'off' || totalPages === 0) {
+        preview.classList.add('hidden');
+        updateBboxPanelVisibility();
+        return;
+    }
+
+    const pages = getPageRange() ?? Array.from({ length: totalPages }, (_, i) => i);
+    const uniform = computeUniformBboxes(pageBboxes, pages, mode);
+    const missing = pages.filter(page => !pageBboxes.has(page)).length;
+
+    const formatSize = (page: number | undefined): string => {
+        const bbox = page !== undefined ? uniform.get(page) : undefined;
+        if (!bbox) return 'detected when cropping';
+        return `${(bbox.right - bbox.left).toFixed(2)} × ${(bbox.top - bbox.bottom).toFixed(2)} pt`;
+    };
+
+    const lines: string[] = [];
+    if (mode === 'union') {
+        lines.push(`Uniform size: ${formatSize(pages[0])}`);
+    } else {
+        lines.push(`Odd pages: ${formatSize(pages.find(page => page % 2 === 0))}`);
+        lines.push(`Even pages: ${formatSize(pages.find(page => page % 2 === 1))}`);
+    }
+    if (missing > 0) {
+        lines.push(`(${missing} page${missing === 1 ? '' : 's'} without a box will be auto-detected)`);
+    }
+
+    preview.innerHTML = lines.join('<br>');
+    preview.classList.remove('hidden');
+    updateBboxPanelVisibility();
+}
+
+/**
+ * Capture the current editor state for the undo history
+ */
+function captureEditorState(): EditorState {
+    const controls: Record<string, string | boolean> = {};
+    HISTORY_CONTROL_IDS.forEach(id => {
+        const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+        if (!el) return;
+        controls[id] = el instanceof HTMLInputElement && el.type === 'checkbox' ? el.checked : el.value;
+    });
+
+    return {
+        bboxes: Array.from(pageBboxes.entries()),
+        reviewPages: Array.from(reviewPages),
+        rotations: Array.from(pageRotations.entries()),
+        excludedPages: Array.from(excludedPages),
+        pageOrder: [...pageOrder],
+        controls
+    };
+}
+
+/**
+ * Check whether an editor state is what a freshly opened document starts with:
+ * no bboxes, review flags, rotations, exclusions or reordering, and every
+ * control at its value in the page markup
+ */
+function isDefaultEditorState(state: EditorState): boolean {
+    if (state.bboxes.length > 0 || state.reviewPages.length > 0) return false;
+    if ((state.rotations ?? []).some(([, angle]) => angle % 360 !== 0)) return false;
+    if ((state.excludedPages ?? []).length > 0) return false;
+    if ((state.pageOrder ?? []).some((page, index) => page !== index)) return false;
+
+    return Object.entries(state.controls).every(([id, value]) => {
+        const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+        if (!el) return true;
+        if (el instanceof HTMLSelectElement) {
+            const defaultOption = Array.from(el.options).find(option => option.defaultSelected) ?? el.options[0];
+            return value === (defaultOption?.value ?? '');
+        }
+        return el.type === 'checkbox' ? value === el.defaultChecked : value === el.defaultValue;
+    });
+}
+
+/**
+ * Restore an editor state from the undo history
+ */
+function restoreEditorState(state: EditorState): void {
+    pageBboxes = new Map(state.bboxes);
+    reviewPages = new Set(state.reviewPages);
+
+    // Re-render pages whose rotation changed
+    const rotations = new Map(state.rotations ?? []);
+    const rotatedPages = Array.from({ length: totalPages }, (_, i) => i)
+        .filter(page => (rotations.get(page) || 0) !== (pageRotations.get(page) || 0));
+    pageRotations = rotations;
+    if (rotatedPages.length > 0) {
+        refreshRotatedPages(rotatedPages);
+    }
+    // Ignore pages outside the document, e.g. from a damaged saved session
+    excludedPages = new Set((state.excludedPages ?? [])
+        .filter(page => Number.isInteger(page) && page >= 0 && page < totalPages));
+    pageOrder = isPageOrderValid(state.pageOrder) ? [...state.pageOrder] : getOriginalPageOrder();
+    applyThumbnailOrder();
+
+    Object.entries(state.controls).forEach(([id, value]) => {
+        const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+        if (!el) return;
+        if (el instanceof HTMLInputElement && el.type === 'checkbox') {
+            el.checked = value === true;
+        } else {
+            el.value = String(value);
+        }
+    });
+
+    // Update UI that depends on the restored controls
+    const uniformMarginValue = document.getElementById('uniform-margin-value');
+    if (uniformMarginValue) {
+        uniformMarginValue.textContent = String(state.controls['uniform-margin'] ?? '0');
+    }
+    const customRangeInput = document.getElementById('custom-range-input');
+    if (customRangeInput) {
+        customRangeInput.classList.toggle('hidden', state.controls['page-range-select'] !== 'custom');
+    }
+    updatePaperSizeControls();
+    applyAspectRatio();
+
+    updateReviewDisplay();
+    updateAllThumbnailBboxes();
+    updatePageRangeHighlight();
+    updateThumbnailExclusions();
+    renderBboxOverlay();
+}
+
+/**
+ * Record the current state after an edit
+ */
+function recordHistory(): void {
+    if (!currentPDFData) return;
+    editHistory.commit(captureEditorState());
+}
+
+/**
+ * Undo the last edit
+ */
+function handleUndo(): void {
+    const state = editHistory.undo();
+    if (state) {
+        restoreEditorState(state);
+    }
+}
+
+/**
+ * Redo the last undone edit
+ */
+function handleRedo(): void {
+    const state = editHistory.redo();
+    if (state) {
+        restoreEditorState(state);
+    }
+}
+
+/**
+ * Enable or disable undo/redo buttons
+ */
+function updateHistoryButtons(): void {
+    const undoButton = document.getElementById('undo-button') as HTMLButtonElement | null;
+    const redoButton = document.getElementById('redo-button') as HTMLButtonElement | null;
+    if (undoButton) undoButton.disabled = !editHistory.canUndo();
+    if (redoButton) redoButton.disabled = !editHistory.canRedo();
+}
+
+/**
+ * Identify a document by its size and checksum
+ * The same file opened again maps to the same saved session.
+ */
+function getSessionId(data: Uint8Array): string {
+    return `${data.length.toString(16)}-${crc32(data).toString(16)}`;
+}
+
+/**
+ * Save the open document and its editor state to the session store
+ */
+function persistSession(data: Uint8Array, filename: string): void {
+    if (!sessionStore) return;
+
+    const id = getSessionId(data);
+    sessionStore.saveDocument({
+        id,
+        filename,
+        pageCount: totalPages,
+        size: data.length,
+        updatedAt: Date.now(),
+        state: captureEditorState()
+    }, data).then(() => {
+        // Only track the session if the document is still open
+        if (currentPDFData === data) {
+            currentSessionId = id;
+            scheduleSessionSave();
+        }
+        return renderRecentDocuments();
+    }).catch(err => {
+        // Storage may be full or unavailable (e.g. private browsing)
+        console.warn('Could not save session:', err);
+    });
+}
+
+/**
+ * Save the editor state shortly after the last change
+ */
+function scheduleSessionSave(): void {
+    if (!sessionStore || !currentSessionId) return;
+
+    window.clearTimeout(sessionSaveTimeout);
+    sessionSaveTimeout = window.setTimeout(() => {
+        if (!sessionStore || !currentSessionId) return;
+        sessionStore.saveState(currentSessionId, captureEditorState()).catch(err => {
+            console.warn('Could not save session state:', err);
+        });
+    }, 500);
+}
+
+/**
+ * Restore a saved document and its editor state
+ */
+async function restoreSession(id: string): Promise<void> {
+    if (!sessionStore) return;
+
+    let saved;
+    try {
+        saved = await sessionStore.loadSession(id);
+    } catch (error) {
+        console.error('Error loading saved session:', error);
+        reportError('Failed to restore session', error, { operation: 'restore session' });
+        return;
+    }
+
+    if (!saved) {
+        alert('This saved document is no longer available.');
+        await renderRecentDocuments();
+        return;
+    }
+
+    // A restored document is always opened on its own
+    batchQueue?.clear();
+    document.getElementById('batch-section')?.classList.add('hidden');
+
+    await openDocument(saved.data, saved.record.filename, saved.record.state);
+}
+
+/**
+ * Delete a saved document (or all of them) from this browser
+ */
+async function forgetSession(id: string | null): Promise<void> {
+    if (!sessionStore) return;
+
+    if (id === null || id === currentSessionId) {
+        window.clearTimeout(sessionSaveTimeout);
+        currentSessionId = null;
+    }
+
+    try {
+        if (id === null) {
+            await sessionStore.forgetAll();
+        } else {
+            await sessionStore.forget(id);
+        }
+    } catch (error) {
+        console.error('Error deleting saved session:', error);
+    }
+    await renderRecentDocuments();
+}
+
+/**
+ * Render the list of recently opened documents on the upload screen
+ */
+async function renderRecentDocuments(): Promise<void> {
+    const section = document.getElementById('recent-documents');
+    const list = document.getElementById('recent-documents-list');
+    if (!section || !list) return;
+
+    const sessions = sessionStore ? await sessionStore.listSessions() : [];
+    list.innerHTML = '';
+    section.classList.toggle('hidden', sessions.length === 0);
+
+    sessions.forEach(session => {
+        const row = document.createElement('div');
+        row.className = 'flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-gray-100 transition-colors';
+
+        const openButton = document.createElement('button');
+        openButton.className = 'flex-1 min-w-0 text-left';
+        openButton.title = `Open ${session.filename}`;
+
+        const name = document.createElement('div');
+        name.className = 'text-sm font-medium text-gray-900 truncate';
+        name.textContent = session.filename;
+
+        const boxCount = session.state ? session.state.bboxes.length : 0;
+        const details = document.createElement('div');
+        details.className = 'text-xs text-gray-500';
+        details.textContent = [
+            `${session.pageCount} page${session.pageCount === 1 ? '' : 's'}`,
+            `${(session.size / (1024 * 1024)).toFixed(1)} MB`,
+            `${boxCount} crop box${boxCount === 1 ? '' : 'es'}`,
+            new Date(session.updatedAt).toLocaleString()
+        ].join(' · ');
+
+        openButton.appendChild(name);
+        openButton.appendChild(details);
+        openButton.addEventListener('click', () => {
+            restoreSession(session.id).catch(err => {
+                console.error('Error restoring session:', err);
+            });
+        });
+
+        const forgetButton = document.createElement('button');
+        forgetButton.className = 'btn-secondary btn-sm flex-shrink-0';
+        forgetButton.textContent = 'Forget';
+        forgetButton.title = 'Delete this document from browser storage';
+        forgetButton.addEventListener('click', () => {
+            forgetSession(session.id).catch(err => {
+                console.error('Error forgetting session:', err);
+            });
+        });
+
+        row.appendChild(openButton);
+        row.appendChild(forgetButton);
+        list.appendChild(row);
+    });
+}
+
+/**
+ * Update thumbnail selection highlighting
+ */
+function updateThumbnailSelection(pageNum: number): void {
+    // Remove highlighting from all thumbnails
+    document.querySelectorAll('.thumbnail-item canvas').forEach(canvas => {
+        canvas.classList.remove('shadow-lg', 'ring-2', 'ring-primary-500', 'border-primary-500');
+        canvas.classList.add('border-gray-200');
+    });
+
+    // Remove bold from all page labels
+    document.querySelectorAll('.thumbnail-item div[data-page]').forEach(label => {
+        label.classList.remove('font-bold', 'text-gray-900');
+        label.classList.add('text-gray-600');
+    });
+
+    // Add highlighting to selected thumbnail canvas
+    const selectedCanvas = document.querySelector(`.thumbnail-item canvas[data-page="${pageNum}"]`) as HTMLCanvasElement;
+    if (selectedCanvas) {
+        selectedCanvas.classList.add('shadow-lg', 'ring-2', 'ring-primary-500', 'border-primary-500');
+        selectedCanvas.classList.remove('border-gray-200');
+    }
+
+    // Bold the selected page label
+    const selectedLabel = document.querySelector(`.thumbnail-item div[data-page="${pageNum}"]`) as HTMLDivElement;
+    if (selectedLabel) {
+        selectedLabel.classList.add('font-bold', 'text-gray-900');
+        selectedLabel.classList.remove('text-gray-600');
+    }
+}
+
+/**
+ * Generate thumbnail placeholders for all pages
+ * Pages are rendered by the thumbnail renderer once they scroll into view.
+ */
+async function generateThumbnails() {
+    const thumbnailContainer = document.getElementById('thumbnail-container');
+    if (!thumbnailContainer) return;
+
+    thumbnailRenderer?.reset();
+    thumbnailContainer.innerHTML = '';
+
+    // Size placeholders like the first page until each page is rendered
+    const firstViewport = pdfViewer ? await pdfViewer.getPageViewport(1) : null;
+    const fragment = document.createDocumentFragment();
+    const canvases: HTMLCanvasElement[] = [];
+
+    for (let i = 1; i <= totalPages; i++) {
+        const thumbnailDiv = document.createElement('div');
+        thumbnailDiv.className = 'thumbnail-item group cursor-pointer p-2 rounded hover:bg-gray-100 transition-all duration-200';
+        thumbnailDiv.dataset.page = i.toString();
+
+        // Wrapper sized by the canvas so the bbox marker can be positioned in percent
+        const canvasWrapper = document.createElement('div');
+        canvasWrapper.className = 'relative mb-1';
+
+        const canvas = document.createElement('canvas');
+        // Don't use w-full since we set explicit dimensions for high-DPI rendering
+        canvas.className = 'border border-gray-200 rounded transition-all duration-200';
+        canvas.style.display = 'block';
+        canvas.style.width = '100%';
+        canvas.style.height = 'auto';
+        canvas.dataset.page = i.toString();
+        if (firstViewport) {
+            canvas.width = Math.max(1, Math.round(firstViewport.width / 10));
+            canvas.height = Math.max(1, Math.round(firstViewport.height / 10));
+        }
+
+        const bboxMarker = document.createElement('div');
+        bboxMarker.className = 'thumbnail-bbox hidden absolute border border-primary-500 bg-primary-500/10 pointer-events-none';
+
+        const pageLabel = document.createElement('div');
+        pageLabel.className = 'text-xs text-center text-gray-600 transition-all duration-200';
+        pageLabel.textContent = `Page ${i}`;
+        pageLabel.dataset.page = i.toString();
+
+        const reviewBadge = document.createElement('span');
+        reviewBadge.className = 'thumbnail-review hidden ml-1 text-amber-600';
+        reviewBadge.textContent = '⚠';
+        reviewBadge.title = 'Detected box differs from most pages - please review';
+        pageLabel.appendChild(reviewBadge);
+
+        const rotation = pageRotations.get(i - 1) || 0;
+        const rotationLabel = document.createElement('span');
+        rotationLabel.className = 'thumbnail-rotation ml-1 text-primary-600';
+        rotationLabel.classList.toggle('hidden', rotation === 0);
+        rotationLabel.textContent = `↻${rotation}°`;
+        rotationLabel.title = 'Rotated in the cropped output';
+        pageLabel.appendChild(rotationLabel);
+
+        const excludedLabel = document.createElement('span');
+        excludedLabel.className = 'thumbnail-excluded hidden ml-1 text-red-600';
+        excludedLabel.textContent = '✕';
+        excludedLabel.title = 'Left out of the cropped output';
+        pageLabel.appendChild(excludedLabel);
+
+        const rotateButton = document.createElement('button');
+        rotateButton.className = 'absolute top-1 right-1 hidden group-hover:flex items-center justify-center w-6 h-6 rounded bg-white/90 shadow text-sm text-gray-700 hover:text-primary-600';
+        rotateButton.textContent = '↻';
+        rotateButton.title = 'Rotate page clockwise';
+        rotateButton.addEventListener('click', (e) => {
+            // Don't also select the page
+            e.stopPropagation();
+            rotatePages([i - 1], 90);
+        });
+
+        const deleteButton = document.createElement('button');
+        deleteButton.className = 'thumbnail-delete absolute top-1 left-1 hidden group-hover:flex items-center justify-center w-6 h-6 rounded bg-white/90 shadow text-sm text-gray-700 hover:text-red-600';
+        deleteButton.textContent = '✕';
+        deleteButton.title = 'Delete page from the output';
+        deleteButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            toggleExcludedPages([i - 1]);
+        });
+
+        canvasWrapper.appendChild(canvas);
+        canvasWrapper.appendChild(bboxMarker);
+        canvasWrapper.appendChild(rotateButton);
+        canvasWrapper.appendChild(deleteButton);
+        thumbnailDiv.appendChild(canvasWrapper);
+        thumbnailDiv.appendChild(pageLabel);
+        fragment.appendChild(thumbnailDiv);
+        canvases.push(canvas);
+
+        // Click shows the page; Ctrl/Shift-click selects pages for the page range
+        thumbnailDiv.addEventListener('click', async (e) => {
+            if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                selectThumbnail(i - 1, e.ctrlKey || e.metaKey, e.shiftKey);
+                return;
+            }
+
+            // Render the page
+            selectionAnchor = i - 1;
+            currentPage = i;
+            await renderPage(i);
+        });
+
+        // Right-click shows actions for the selected pages
+        thumbnailDiv.addEventListener('contextmenu', (e) => {
+            e.preventDefault();
+            showThumbnailMenu(i - 1, e.clientX, e.clientY);
+        });
+
+        // Drag to reorder the output; dragging a selected page moves the whole selection
+        thumbnailDiv.draggable = true;
+        thumbnailDiv.addEventListener('dragstart', (e) => {
+            draggedPage = i - 1;
+            if (e.dataTransfer) {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', i.toString());
+            }
+            thumbnailDiv.classList.add('opacity-50');
+        });
+        thumbnailDiv.addEventListener('dragend', () => {
+            draggedPage = null;
+            thumbnailDiv.classList.remove('opacity-50');
+            showDropPosition(null, false);
+        });
+        thumbnailDiv.addEventListener('dragover', (e) => {
+            if (draggedPage === null) return;
+            e.preventDefault();
+            showDropPosition(thumbnailDiv, isDropAfter(thumbnailDiv, e));
+        });
+        thumbnailDiv.addEventListener('drop', (e) => {
+            if (draggedPage === null) return;
+            e.preventDefault();
+            const selection = getThumbnailSelection();
+            const moving = selection.includes(draggedPage) ? selection : [draggedPage];
+            movePages(moving, i - 1, isDropAfter(thumbnailDiv, e));
+            showDropPosition(null, false);
+        });
+    }
+
+    thumbnailContainer.appendChild(fragment);
+    applyThumbnailOrder();
+    canvases.forEach((canvas, index) => thumbnailRenderer?.observe(index + 1, canvas));
+    updateAllThumbnailBboxes();
+    updatePageRangeHighlight();
+    updateThumbnailExclusions();
+}
+
+/**
+ * Get the pages in their original order (0-indexed)
+ */
+function getOriginalPageOrder(): number[] {
+    return Array.from({ length: totalPages }, (_, i) => i);
+}
+
+/**
+ * Check that a saved page order contains every page of the document once
+ */
+function isPageOrderValid(order: number[] | undefined): order is number[] {
+    return !!order && order.length === totalPages && new Set(order).size === totalPages &&
+        order.every(page => Number.isInteger(page) && page >= 0 && page < totalPages);
+}
+
+/**
+ * Arrange the thumbnails in output order
+ */
+function applyThumbnailOrder(): void {
+    const thumbnailContainer = document.getElementById('thumbnail-container');
+    if (!thumbnailContainer) return;
+
+    pageOrder.forEach(page => {
+        const item = thumbnailContainer.querySelector(`.thumbnail-item[data-page="${page + 1}"]`);
+        if (item) {
+            thumbnailContainer.appendChild(item);
+        }
+    });
+}
+
+/**
+ * Check whether a drop lands after a thumbnail (lower half) or before it
+ */
+function isDropAfter(item: HTMLElement, e: DragEvent): boolean {
+    const rect = item.getBoundingClientRect();
+    return e.clientY > rect.top + rect.height / 2;
+}
+
+/**
+ * Mark where a dragged thumbnail will be inserted
+ * @param item - Thumbnail to drop next to (null to clear the mark)
+ */
+function showDropPosition(item: HTMLElement | null, after: boolean): void {
+    document.querySelectorAll('.thumbnail-item').forEach(other => {
+        other.classList.remove('shadow-[0_-2px_0_0_#0ea5e9]', 'shadow-[0_2px_0_0_#0ea5e9]');
+    });
+    item?.classList.add(after ? 'shadow-[0_2px_0_0_#0ea5e9]' : 'shadow-[0_-2px_0_0_#0ea5e9]');
+}
+
+/**
+ * Move pages next to another page in the output order
+ * The moved pages keep their relative order.
+ * @param pages - Pages to move (0-indexed)
+ * @param target - Page to insert next to (0-indexed)
+ * @param after - Insert after the target instead of before it
+ */
+function movePages(pages: number[], target: number, after: boolean): void {
+    if (pages.includes(target)) return;
+
+    const moving = pageOrder.filter(page => pages.includes(page));
+    const rest = pageOrder.filter(page => !pages.includes(page));
+    const index = rest.indexOf(target) + (after ? 1 : 0);
+    pageOrder = [...rest.slice(0, index), ...moving, ...rest.slice(index)];
+    console.log(`Moved ${moving.length} pages ${after ? 'after' : 'before'} page ${target + 1}`);
+
+    applyThumbnailOrder();
+    recordHistory();
+}
+
+/**
+ * Get the pages selected in the thumbnail sidebar (0-indexed)
+ * These are the pages of the page range, or none when all pages are selected.
+ */
+function getThumbnailSelection(): number[] {
+    const select = document.getElementById('page-range-select') as HTMLSelectElement | null;
+    if (!select || select.value === 'all') return [];
+    return getPageRange() ?? [];
+}
+
+/**
+ * Set the page range to the given pages
+ * An empty selection selects all pages.
+ */
+function setThumbnailSelection(pages: number[]): void {
+    const pageRangeSelect = document.getElementById('page-range-select') as HTMLSelectElement | null;
+    const pageRangeText = document.getElementById('page-range-text') as HTMLInputElement | null;
+    if (!pageRangeSelect || !pageRangeText) return;
+
+    if (pages.length > 0) {
+        pageRangeText.value = formatPageRange(pages);
+        pageRangeSelect.value = 'custom';
+    } else {
+        pageRangeSelect.value = 'all';
+    }
+    pageRangeSelect.dispatchEvent(new Event('change'));
+}
+
+/**
+ * Update the thumbnail selection for a Ctrl- or Shift-click
+ * @param pageIndex - Clicked page (0-indexed)
+ * @param toggle - Ctrl/Cmd: add to or remove from the selection
+ * @param extend - Shift: select from the last clicked page
+ */
+function selectThumbnail(pageIndex: number, toggle: boolean, extend: boolean): void {
+    const selection = new Set(getThumbnailSelection());
+
+    if (extend) {
+        // Ranges follow the sidebar order
+        const anchor = pageOrder.indexOf(selectionAnchor ?? currentPage - 1);
+        const clicked = pageOrder.indexOf(pageIndex);
+        if (!toggle) {
+            selection.clear();
+        }
+        pageOrder.slice(Math.min(anchor, clicked), Math.max(anchor, clicked) + 1).forEach(page => selection.add(page));
+    } else {
+        if (selection.has(pageIndex)) {
+            selection.delete(pageIndex);
+        } else {
+            selection.add(pageIndex);
+        }
+        selectionAnchor = pageIndex;
+    }
+
+    setThumbnailSelection(Array.from(selection));
+}
+
+/**
+ * Show the actions menu for the selected thumbnails
+ * Right-clicking a page outside the selection selects just that page.
+ * @param pageIndex - Right-clicked page (0-indexed)
+ */
+function showThumbnailMenu(pageIndex: number, clientX: number, clientY: number): void {
+    const menu = document.getElementById('thumbnail-menu');
+    if (!menu) return;
+
+    let selection = getThumbnailSelection();
+    if (!selection.includes(pageIndex)) {
+        selection = [pageIndex];
+        selectionAnchor = pageIndex;
+        setThumbnailSelection(selection);
+    }
+
+    const count = document.getElementById('thumbnail-menu-count');
+    if (count) {
+        count.textContent = selection.length === 1 ? `Page ${selection[0] + 1}` : `${selection.length} pages`;
+    }
+    const excludeButton = menu.querySelector('[data-action="exclude"]');
+    if (excludeButton) {
+        excludeButton.textContent = selection.every(page => excludedPages.has(page)) ? 'Restore to output' : 'Delete from output';
+    }
+    const applyButton = menu.querySelector('[data-action="apply"]') as HTMLButtonElement | null;
+    if (applyButton) {
+        applyButton.disabled = !pageBboxes.has(currentPage - 1);
+    }
+
+    // Keep the menu inside the window
+    menu.classList.remove('hidden');
+    const rect = menu.getBoundingClientRect();
+    menu.style.left = `${Math.min(clientX, window.innerWidth - rect.width - 4)}px`;
+    menu.style.top = `${Math.min(clientY, window.innerHeight - rect.height - 4)}px`;
+}
+
+/**
+ * Hide the thumbnail actions menu
+ */
+function hideThumbnailMenu(): void {
+    document.getElementById('thumbnail-menu')?.classList.add('hidden');
+}
+
+/**
+ * Run an action from the thumbnail menu on the selected pages
+ */
+async function handleThumbnailMenuAction(action: string): Promise<void> {
+    hideThumbnailMenu();
+    const pages = getThumbnailSelection();
+    if (pages.length === 0) return;
+
+    if (action === 'apply') {
+        await applyCurrentBboxToPages(pages);
+        recordHistory();
+    } else if (action === 'detect') {
+        // The selection is the page range
+        await handleAutoDetectAll();
+    } else if (action === 'clear') {
+        pages.forEach(page => {
+            pageBboxes.delete(page);
+            reviewPages.delete(page);
+        });
+        updateReviewDisplay();
+        updateAllThumbnailBboxes();
+        renderBboxOverlay();
+        recordHistory();
+    } else if (action === 'exclude') {
+        toggleExcludedPages(pages);
+    } else if (action === 'extract') {
+        await handleCrop(pageOrder.filter(page => pages.includes(page)));
+    }
+}
+
+/**
+ * Leave pages out of the output, or put them back if they all are already
+ * @param pages - Pages to toggle (0-indexed)
+ */
+function toggleExcludedPages(pages: number[]): void {
+    const include = pages.every(page => excludedPages.has(page));
+    pages.forEach(page => {
+        if (include) {
+            excludedPages.delete(page);
+        } else {
+            excludedPages.add(page);
+        }
+    });
+    updateThumbnailExclusions();
+    recordHistory();
+}
+
+/**
+ * Dim thumbnails of pages left out of the output
+ */
+function updateThumbnailExclusions(): void {
+    document.querySelectorAll<HTMLElement>('.thumbnail-item').forEach(item => {
+        const excluded = excludedPages.has(parseInt(item.dataset.page || '0', 10) - 1);
+        item.querySelector('canvas')?.classList.toggle('opacity-40', excluded);
+        item.querySelector('.thumbnail-excluded')?.classList.toggle('hidden', !excluded);
+
+        const deleteButton = item.querySelector('.thumbnail-delete') as HTMLButtonElement | null;
+        if (deleteButton) {
+            deleteButton.textContent = excluded ? '↺' : '✕';
+            deleteButton.title = excluded ? 'Restore page to the output' : 'Delete page from the output';
+        }
+    });
+}
+
+/**
+ * Rotate pages by a multiple of 90° (negative is counter-clockwise)
+ * The rotation is shown in the viewer and applied to the cropped output.
+ * @param pages - Page numbers (0-indexed)
+ */
+function rotatePages(pages: number[], degrees: number): void {
+    if (!currentPDFData || pages.length === 0) return;
 
-    // Remove bold from all page labels
-    document.querySelectorAll('.thumbnail-item div[data-page]').forEach(label => {
-        label.classList.remove('font-bold', 'text-gray-900');
-        label.classList.add('text-gray-600');
+    pages.forEach(page => {
+        const rotation = ((((pageRotations.get(page) || 0) + degrees) % 360) + 360) % 360;
+        if (rotation === 0) {
+            pageRotations.delete(page);
+        } else {
+            pageRotations.set(page, rotation);
+        }
     });
+    console.log(`Rotated ${pages.length} pages by ${degrees}°`);
 
-    // Add highlighting to selected thumbnail canvas
-    const selectedCanvas = document.querySelector(`.thumbnail-item canvas[data-page="${pageNum}"]`) as HTMLCanvasElement;
-    if (selectedCanvas) {
-        selectedCanvas.classList.add('shadow-lg', 'ring-2', 'ring-primary-500', 'border-primary-500');
-        selectedCanvas.classList.remove('border-gray-200');
+    refreshRotatedPages(pages);
+    recordHistory();
+}
+
+/**
+ * Show changed page rotations in the viewer and thumbnails
+ * @param pages - Page numbers (0-indexed)
+ */
+function refreshRotatedPages(pages: number[]): void {
+    if (!pdfViewer) return;
+
+    pdfViewer.setPageRotations(pageRotations);
+
+    // Bboxes are stored in unrotated PDF space, so the overlay follows the rotated view
+    if (pages.includes(currentPage - 1)) {
+        renderPage(currentPage);
     }
 
-    // Bold the selected page label
-    const selectedLabel = document.querySelector(`.thumbnail-item div[data-page="${pageNum}"]`) as HTMLDivElement;
-    if (selectedLabel) {
-        selectedLabel.classList.add('font-bold', 'text-gray-900');
-        selectedLabel.classList.remove('text-gray-600');
+    pages.forEach(page => {
+        updateThumbnailRotation(page).catch(err => {
+            console.error(`Error re-rendering thumbnail for page ${page + 1}:`, err);
+        });
+    });
+}
+
+/**
+ * Re-render a thumbnail after its rotation changed
+ * @param pageIndex - Page number (0-indexed)
+ */
+async function updateThumbnailRotation(pageIndex: number): Promise<void> {
+    const thumbnail = document.querySelector(`.thumbnail-item[data-page="${pageIndex + 1}"]`);
+    if (!thumbnail || !pdfViewer) return;
+
+    const rotation = pageRotations.get(pageIndex) || 0;
+    const rotationLabel = thumbnail.querySelector('.thumbnail-rotation');
+    if (rotationLabel) {
+        rotationLabel.textContent = `↻${rotation}°`;
+        rotationLabel.classList.toggle('hidden', rotation === 0);
     }
+
+    // Re-rendered when visible; the bbox marker is positioned in percent
+    thumbnailRenderer?.invalidate(pageIndex + 1);
+    await updateThumbnailBbox(pageIndex);
 }
 
 /**
- * Generate thumbnails for all pages
+ * Show the stored bbox and review flag of a page on its thumbnail
+ * @param pageIndex - Page number (0-indexed)
  */
-async function generateThumbnails() {
-    const thumbnailContainer = document.getElementById('thumbnail-container');
-    if (!thumbnailContainer) return;
+async function updateThumbnailBbox(pageIndex: number): Promise<void> {
+    if (!pdfViewer) return;
 
-    thumbnailContainer.innerHTML = '';
+    // Also shown on the page itself in continuous mode
+    pdfViewer.setPageBbox(pageIndex, pageBboxes.get(pageIndex) ?? null);
 
-    for (let i = 1; i <= totalPages; i++) {
-        const thumbnailDiv = document.createElement('div');
-        thumbnailDiv.className = 'thumbnail-item cursor-pointer p-2 rounded hover:bg-gray-100 transition-all duration-200';
-        thumbnailDiv.dataset.page = i.toString();
+    const thumbnail = document.querySelector(`.thumbnail-item[data-page="${pageIndex + 1}"]`);
+    if (!thumbnail) return;
 
-        const canvas = document.createElement('canvas');
-        // Don't use w-full since we set explicit dimensions for high-DPI rendering
-        canvas.className = 'border border-gray-200 rounded mb-1 transition-all duration-200';
-        canvas.style.display = 'block';
-        canvas.style.width = '100%';
-        canvas.style.height = 'auto';
-        canvas.dataset.page = i.toString();
+    const marker = thumbnail.querySelector('.thumbnail-bbox') as HTMLDivElement | null;
+    const badge = thumbnail.querySelector('.thumbnail-review') as HTMLSpanElement | null;
+    const needsReview = reviewPages.has(pageIndex);
 
-        const pageLabel = document.createElement('div');
-        pageLabel.className = 'text-xs text-center text-gray-600 transition-all duration-200';
-        pageLabel.textContent = `Page ${i}`;
-        pageLabel.dataset.page = i.toString();
+    if (badge) {
+        badge.classList.toggle('hidden', !needsReview);
+    }
+    if (!marker) return;
 
-        thumbnailDiv.appendChild(canvas);
-        thumbnailDiv.appendChild(pageLabel);
-        thumbnailContainer.appendChild(thumbnailDiv);
+    const bbox = pageBboxes.get(pageIndex);
+    const viewport = bbox ? await pdfViewer.getPageViewport(pageIndex + 1) : null;
+    if (!bbox || !viewport) {
+        marker.classList.add('hidden');
+        return;
+    }
 
-        // Render thumbnail after a frame to ensure layout is calculated
-        // Pass 0 to use the actual rendered width of the canvas (which has width: 100%)
-        await new Promise(resolve => requestAnimationFrame(resolve));
-        try {
-            if (pdfViewer) {
-                await pdfViewer.renderThumbnail(i, canvas, 0);
-            }
-        } catch (error) {
-            console.error(`Error rendering thumbnail for page ${i}:`, error);
-        }
+    // Position in percent of the displayed (possibly rotated) page
+    const rect = pdfBboxToCanvasRect(viewport, bbox);
+    marker.style.left = `${(rect.x / viewport.width) * 100}%`;
+    marker.style.top = `${(rect.y / viewport.height) * 100}%`;
+    marker.style.width = `${(rect.width / viewport.width) * 100}%`;
+    marker.style.height = `${(rect.height / viewport.height) * 100}%`;
+    marker.classList.toggle('border-amber-500', needsReview);
+    marker.classList.toggle('border-primary-500', !needsReview);
+    marker.classList.remove('hidden');
+}
 
-        // Click handler
-        thumbnailDiv.addEventListener('click', async () => {
-            // Render the page
-            currentPage = i;
-            await renderPage(i);
+/**
+ * Refresh bbox markers on all thumbnails
+ */
+function updateAllThumbnailBboxes(): void {
+    for (let i = 0; i < totalPages; i++) {
+        updateThumbnailBbox(i).catch(err => {
+            console.error(`Error updating thumbnail bbox for page ${i + 1}:`, err);
         });
     }
 }
 
+/**
+ * Update the list of pages flagged for review after batch detection
+ */
+function updateReviewDisplay(): void {
+    const reviewEl = document.getElementById('detect-review');
+    if (!reviewEl) return;
+
+    if (reviewPages.size === 0) {
+        reviewEl.classList.add('hidden');
+        reviewEl.innerHTML = '';
+        return;
+    }
+
+    const pages = Array.from(reviewPages).sort((a, b) => a - b);
+    reviewEl.innerHTML = '';
+
+    const summary = document.createElement('p');
+    summary.className = 'mb-1';
+    summary.textContent = `${pages.length} page${pages.length === 1 ? '' : 's'} differ from the typical box - please review:`;
+    reviewEl.appendChild(summary);
+
+    pages.forEach(page => {
+        const link = document.createElement('button');
+        link.className = 'mr-2 underline hover:text-amber-900';
+        link.textContent = (page + 1).toString();
+        link.addEventListener('click', async () => {
+            if (pdfViewer) {
+                await pdfViewer.goToPage(page + 1);
+            }
+        });
+        reviewEl.appendChild(link);
+    });
+
+    reviewEl.classList.remove('hidden');
+}
+
 /**
  * Handle auto-detect bbox
  */
 async function handleAutoDetect(): Promise<void> {
-    if (!currentPDFData || !bboxOverlay) return;
+    if (!currentPDFData || !bboxOverlay || !cropWorker) return;
 
-    showLoading('Detecting crop region...');
+    showLoading('Detecting crop region...', true);
 
     try {
-        // Create a copy using slice() to get a fresh ArrayBuffer
-        const pdfCopy = currentPDFData.slice();
-        const bbox = await detectBbox(pdfCopy, currentPage - 1);  // 0-indexed
-        console.log('Detected bbox:', bbox);
+        const pageIndex = currentPage - 1;  // 0-indexed
+        const { bboxes, failures } = await cropWorker.detect([pageIndex]);
+        if (failures.length > 0) {
+            throw new Error(failures[0].message);
+        }
+
+        const pdfBbox = bboxes[pageIndex];
+        console.log('Detected bbox:', pdfBbox);
 
         // Store bbox for this page (0-indexed)
-        const pdfBbox: PDFBBox = {
-            left: bbox.left,
-            bottom: bbox.bottom,
-            right: bbox.right,
-            top: bbox.top
-        };
-        pageBboxes.set(currentPage - 1, pdfBbox);
+        pageBboxes.set(pageIndex, pdfBbox);
+        reviewPages.delete(pageIndex);
+        updateReviewDisplay();
+        updateThumbnailBbox(pageIndex);
+        updateUniformSizePreview();
+        recordHistory();
 
         // Render the bbox overlay on canvas
         bboxOverlay.setBbox(pdfBbox);
@@ -638,63 +2440,335 @@ async function handleAutoDetect(): Promise<void> {
 
         hideLoading();
     } catch (error) {
+        hideLoading();
+        if (error instanceof OperationCancelledError) {
+            console.log('Auto-detect cancelled');
+            return;
+        }
+
         console.error('Error detecting bbox:', error);
-        console.error('Error type:', typeof error);
-        console.error('Error details:', error);
+        reportError('Failed to detect crop region', error, {
+            ...getDocumentDiagnostics('detect'),
+            details: { page: currentPage }
+        });
+    }
+}
+
+/**
+ * Handle batch auto-detect over the selected page range
+ * Fills pageBboxes for every page and flags outliers for manual review.
+ */
+async function handleAutoDetectAll(): Promise<void> {
+    if (!currentPDFData || !cropWorker || !ensureValidPageRange()) return;
+
+    const pages = getPageRange() ?? Array.from({ length: totalPages }, (_, i) => i);
+    showLoading(`Detecting crop regions on ${pages.length} pages...`, true);
+
+    try {
+        const { bboxes, failures } = await cropWorker.detect(pages, (done, total, message) => {
+            updateLoadingProgress(total > 0 ? done / total : null, message);
+        });
 
-        let errorMessage = 'Unknown error';
-        if (error instanceof Error) {
-            errorMessage = error.message;
-        } else if (typeof error === 'string') {
-            errorMessage = error;
-        } else if (error && typeof error === 'object') {
-            errorMessage = String(error);
+        const detected = new Map<number, PDFBBox>();
+        for (const [page, bbox] of Object.entries(bboxes)) {
+            detected.set(Number(page), bbox);
+            pageBboxes.set(Number(page), bbox);
         }
+        console.log(`Detected bboxes on ${detected.size} of ${pages.length} pages`);
+
+        // Flag unusual boxes and pages where detection failed
+        pages.forEach(page => reviewPages.delete(page));
+        findOutlierPages(detected).forEach(page => reviewPages.add(page));
+        failures.forEach(failure => {
+            console.warn(`Detection failed on page ${failure.page + 1}:`, failure.message);
+            reviewPages.add(failure.page);
+        });
+
+        updateReviewDisplay();
+        updateAllThumbnailBboxes();
+        renderBboxOverlay();
+        recordHistory();
 
-        alert('Failed to detect crop region: ' + errorMessage + '\n\nCheck browser console (F12) for full error details.');
         hideLoading();
+    } catch (error) {
+        hideLoading();
+        if (error instanceof OperationCancelledError) {
+            console.log('Batch auto-detect cancelled');
+            return;
+        }
+
+        console.error('Error detecting bboxes:', error);
+        reportError('Failed to detect crop regions', error, {
+            ...getDocumentDiagnostics('detect all'),
+            details: { pageRange: getPageRange()?.length ?? 'all' }
+        });
     }
 }
 
 /**
- * Handle crop operation
+ * Crop every queued file with the current settings and download a ZIP
  */
-async function handleCrop(): Promise<void> {
-    if (!currentPDFData) return;
+async function handleBatchCrop(): Promise<void> {
+    if (!batchQueue || !cropWorker || batchQueue.size() === 0) return;
+
+    const items = batchQueue.getItems();
+    const settings = getCropSettings();
+    const outputs: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    const failures: AppError[] = [];
+    batchCancelRequested = false;
 
-    showLoading('Cropping PDF...');
+    showLoading(`Cropping ${items.length} files...`, true);
 
     try {
-        // Build options
-        const options = new WasmCropOptions();
+        for (let index = 0; index < items.length; index++) {
+            const item = items[index];
+
+            if (batchCancelRequested) {
+                batchQueue.setStatus(index, 'cancelled');
+                continue;
+            }
+
+            batchQueue.setStatus(index, 'processing');
+            updateLoadingProgress(index / items.length, `Cropping ${item.file.name} (${index + 1} of ${items.length})...`);
+
+            try {
+                const data = new Uint8Array(await item.file.arrayBuffer());
+                const pageCount = await getPDFPageCount(data.slice());
+
+                // Same options for every file; boxes are auto-detected per file
+                await cropWorker.loadDocument(data, pageCount);
+                const croppedPDF = await cropWorker.crop(settings, null, null, null, null, false, (done, total, message) => {
+                    const fileProgress = total > 0 ? done / total : 0;
+                    batchQueue?.setProgress(index, fileProgress);
+                    updateLoadingProgress((index + fileProgress) / items.length, `${item.file.name}: ${message}`);
+                });
+
+                outputs.push({ name: uniqueFilename(getCroppedFilename(item.file.name), usedNames), data: croppedPDF });
+                batchQueue.setStatus(index, 'done');
+            } catch (error) {
+                if (error instanceof OperationCancelledError) {
+                    batchQueue.setStatus(index, 'cancelled');
+                    continue;
+                }
+
+                const appError = toAppError(error);
+                failures.push(appError);
+                if (error instanceof PasswordRequiredError) {
+                    batchQueue.setStatus(index, 'skipped', 'Password-protected, skipped. Open it on its own to crop it.');
+                    continue;
+                }
+                console.error(`Error cropping ${item.file.name}:`, error);
+                batchQueue.setStatus(index, 'error', appError.message);
+            }
+        }
+
+        if (outputs.length > 0) {
+            updateLoadingProgress(1, 'Creating ZIP archive...');
+            downloadBlob(new Blob([createZip(outputs)], { type: 'application/zip' }), 'pdfcrop-batch.zip');
+        }
+
+        if (failures.length > 0) {
+            reportBatchFailures(failures, items.length, settings);
+        }
+    } catch (error) {
+        if (error instanceof OperationCancelledError) {
+            console.log('Batch crop cancelled');
+            return;
+        }
+
+        console.error('Error cropping files:', error);
+        reportError('Failed to crop files', error, {
+            operation: 'batch crop',
+            details: {
+                settings,
+                files: items.length,
+                cropped: outputs.length
+            }
+        });
+    } finally {
+        // Give the worker back the document shown in the viewer
+        if (currentPDFData) {
+            await cropWorker.loadDocument(currentPDFData, totalPages, pdfViewer?.getPassword() ?? null).catch(err => {
+                console.error('Error reloading current document into worker:', err);
+            });
+        }
+        hideLoading();
+    }
+}
+
+/**
+ * Make a filename unique within an archive by appending a counter
+ */
+function uniqueFilename(filename: string, usedNames: Set<string>): string {
+    let candidate = filename;
+    const baseName = filename.replace(/\.pdf$/i, '');
+    for (let n = 2; usedNames.has(candidate); n++) {
+        candidate = `${baseName} (${n}).pdf`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+}
+
+/**
+ * Output filename for a cropped PDF based on the input filename
+ */
+function getCroppedFilename(inputFilename: string): string {
+    const baseName = inputFilename.replace(/\.pdf$/i, '');
+    return `${baseName}-crop.pdf`;
+}
+
+/**
+ * Detect and store bboxes for pages that don't have one yet
+ * Used before operations that need a box for every page in the range.
+ */
+async function detectMissingBboxes(pages: number[]): Promise<void> {
+    if (!cropWorker) return;
+
+    const missing = pages.filter(page => !pageBboxes.has(page));
+    if (missing.length === 0) return;
+
+    const { bboxes, failures } = await cropWorker.detect(missing, (done, total, message) => {
+        updateLoadingProgress(total > 0 ? done / total : null, message);
+    });
+    for (const [page, bbox] of Object.entries(bboxes)) {
+        pageBboxes.set(Number(page), bbox);
+    }
+    failures.forEach(failure => {
+        console.warn(`Detection failed on page ${failure.page + 1}:`, failure.message);
+    });
+
+    updateAllThumbnailBboxes();
+    renderBboxOverlay();
+    recordHistory();
+}
+
+/**
+ * Copy the current page's bbox to all, odd, even or a custom range of pages
+ */
+async function handleApplyBbox(): Promise<void> {
+    if (!pdfViewer || !bboxOverlay) return;
+
+    const sourceIndex = currentPage - 1;
+    const sourceBbox = pageBboxes.get(sourceIndex);
+    if (!sourceBbox) {
+        alert('Draw or detect a crop box on the current page first.');
+        return;
+    }
+
+    const targetSelect = document.getElementById('apply-bbox-target') as HTMLSelectElement;
+    const rangeText = (document.getElementById('apply-bbox-range') as HTMLInputElement)?.value || '';
+    const target = targetSelect?.value || 'all';
+
+    let pages: number[];
+    if (target === 'odd' || target === 'even') {
+        pages = getParityPages(totalPages, target);
+    } else if (target === 'custom') {
+        const range = parsePageRange(rangeText, totalPages);
+        if (range.error) {
+            alert('Invalid page range: ' + range.error);
+            return;
+        }
+        pages = range.pages;
+    } else {
+        pages = Array.from({ length: totalPages }, (_, i) => i);
+    }
 
-        // Set margins
-        const marginLeftEl = document.getElementById('margin-left') as HTMLInputElement;
-        const marginTopEl = document.getElementById('margin-top') as HTMLInputElement;
-        const marginRightEl = document.getElementById('margin-right') as HTMLInputElement;
-        const marginBottomEl = document.getElementById('margin-bottom') as HTMLInputElement;
+    if (!await applyCurrentBboxToPages(pages)) return;
 
-        const ml = parseFloat(marginLeftEl?.value || '0') || 0;
-        const mt = parseFloat(marginTopEl?.value || '0') || 0;
-        const mr = parseFloat(marginRightEl?.value || '0') || 0;
-        const mb = parseFloat(marginBottomEl?.value || '0') || 0;
-        options.setMargins(ml, mt, mr, mb);
+    recordHistory();
+}
+
+/**
+ * Copy the current page's bbox to other pages, scaled for pages of a different size
+ * @param pages - Target pages (0-indexed)
+ * @returns false if the current page has no bbox
+ */
+async function applyCurrentBboxToPages(pages: number[]): Promise<boolean> {
+    if (!pdfViewer) return false;
+
+    const sourceBbox = pageBboxes.get(currentPage - 1);
+    const sourceBox = await pdfViewer.getPageBox(currentPage);
+    if (!sourceBbox || !sourceBox) return false;
+
+    for (const page of pages) {
+        const targetBox = await pdfViewer.getPageBox(page + 1);
+        if (!targetBox) continue;
+        pageBboxes.set(page, scaleBboxToPage(sourceBbox, sourceBox, targetBox));
+    }
+    console.log(`Applied bbox from page ${currentPage} to ${pages.length} pages`);
+
+    // Explicitly assigned boxes no longer need review
+    pages.forEach(page => reviewPages.delete(page));
+    updateReviewDisplay();
+    updateAllThumbnailBboxes();
+    renderBboxOverlay();
+    return true;
+}
+
+/**
+ * Handle crop operation
+ * The output holds the pages kept in the sidebar, in sidebar order.
+ * @param extractPages - Write only these pages instead, in this order (0-indexed)
+ */
+async function handleCrop(extractPages: number[] | null = null): Promise<void> {
+    if (!currentPDFData || !cropWorker || !ensureValidPageRange()) return;
+
+    const outputPages = extractPages ?? getOutputPages(pageOrder, excludedPages);
+    if (outputPages && outputPages.length === 0) {
+        alert('Every page is deleted from the output. Restore at least one page.');
+        return;
+    }
+
+    showLoading('Cropping PDF...', true);
 
-        // Set options
-        const shrinkToContentEl = document.getElementById('shrink-to-content') as HTMLInputElement;
-        const clipContentEl = document.getElementById('clip-content') as HTMLInputElement;
+    try {
+        // Build options
+        const settings = getCropSettings();
 
-        options.setShrinkToContent(shrinkToContentEl?.checked || false);
-        options.setClipContent(clipContentEl?.checked || false);
+        // Get page range
+        const pageRange = getPageRange();
 
         // Convert page bboxes Map to Object
         // Note: Don't pass bboxes if none are set - WASM will auto-detect
-        const bboxesObject = pageBboxes.size > 0
+        let bboxesObject = pageBboxes.size > 0
             ? Object.fromEntries(pageBboxes)
             : null;
 
-        // Get page range
-        const pageRange = getPageRange();
+        // Paper size: center a paper-sized box on each page's content
+        const paper = getSelectedPaperSize();
+        const uniformMode = getUniformSizeMode();
+        if (paper) {
+            const pages = pageRange ?? Array.from({ length: totalPages }, (_, i) => i);
+            await detectMissingBboxes(pages);
+            const margins = {
+                width: settings.margins.left + settings.margins.right,
+                height: settings.margins.top + settings.margins.bottom
+            };
+            const { bboxes, overflowPages } = computePaperBboxes(
+                pageBboxes, pages, paper, await getSidewaysPages(pages), margins
+            );
+            if (overflowPages.length > 0) {
+                const list = overflowPages.map(page => page + 1).join(', ');
+                if (!confirm(`The content of pages ${list} is larger than the paper size and will be cut off.\n\nCrop anyway?`)) {
+                    hideLoading();
+                    return;
+                }
+            }
+            bboxesObject = Object.fromEntries(bboxes);
+            // The paper box already contains the margins; shrinking would undo the paper size
+            settings.margins = { left: 0, top: 0, right: 0, bottom: 0 };
+            settings.shrinkToContent = false;
+            console.log(`- Paper size: ${paper.width} × ${paper.height} pt`);
+        } else if (uniformMode !== 'off') {
+            // Uniform page size: replace per-page boxes with their union
+            const pages = pageRange ?? Array.from({ length: totalPages }, (_, i) => i);
+            await detectMissingBboxes(pages);
+            bboxesObject = Object.fromEntries(computeUniformBboxes(pageBboxes, pages, uniformMode));
+            // Shrinking each page to its own content would undo the uniform size
+            settings.shrinkToContent = false;
+            console.log(`- Uniform size mode: ${uniformMode}`);
+        }
 
         // Debug logging
         console.log('Crop PDF debug:');
@@ -704,40 +2778,194 @@ async function handleCrop(): Promise<void> {
         console.log('- BBoxes object:', bboxesObject);
         console.log('- PDF data length:', currentPDFData.length);
 
-        // Create a copy using slice() to get a fresh ArrayBuffer
-        const pdfCopy = currentPDFData.slice();
+        // Crop PDF in the worker
+        // Pages rotated in the sidebar are written upright
+        const rotations = pageRotations.size > 0 ? Object.fromEntries(pageRotations) : null;
 
-        // Crop PDF
-        const croppedPDF = await cropPdf(pdfCopy, options, bboxesObject, pageRange);
+        // Only matters for password-protected documents
+        const protectOutput = (document.getElementById('protect-output') as HTMLInputElement)?.checked ?? true;
+
+        const croppedPDF = await cropWorker.crop(settings, bboxesObject, pageRange, rotations, outputPages, protectOutput, (done, total, message) => {
+            updateLoadingProgress(total > 0 ? done / total : null, message);
+        });
         console.log('PDF cropped successfully. Size:', croppedPDF.length, 'bytes');
 
         // Generate output filename based on input filename
-        const baseName = currentPDFFilename.replace(/\.pdf$/i, '');
-        const outputFilename = `${baseName}-crop.pdf`;
-
-        // Download the result
-        downloadPDF(croppedPDF, outputFilename);
+        const outputFilename = extractPages
+            ? `${currentPDFFilename.replace(/\.pdf$/i, '')}-extract.pdf`
+            : getCroppedFilename(currentPDFFilename);
+        previewPageMap = outputPages;
+
+        // Preview the result before downloading
+        if (cropPreview) {
+            updateLoadingProgress(null, 'Rendering preview...');
+            // A protected output is encrypted with the document's password
+            await cropPreview.show(croppedPDF, outputFilename, protectOutput ? pdfViewer?.getPassword() ?? null : null);
+            bboxOverlay?.disable();
+        } else {
+            downloadPDF(croppedPDF, outputFilename);
+        }
 
         hideLoading();
     } catch (error) {
+        hideLoading();
+        if (error instanceof OperationCancelledError) {
+            console.log('Crop cancelled');
+            return;
+        }
+
         console.error('Error cropping PDF:', error);
-        console.error('Error type:', typeof error);
-        console.error('Error details:', error);
+        reportError('Failed to crop PDF', error, {
+            ...getDocumentDiagnostics('crop'),
+            details: {
+                settings: getCropSettings(),
+                croppedPages: getPageRange()?.length ?? 'all',
+                boxes: pageBboxes.size,
+                rotatedPages: pageRotations.size,
+                uniformSize: getUniformSizeMode()
+            }
+        });
+    }
+}
+
+/**
+ * Summarize the files of a batch that failed or were skipped in the error toast
+ * The kind is shown if all failures share it; filenames are left out of the report.
+ */
+function reportBatchFailures(failures: AppError[], fileCount: number, settings: CropSettings): void {
+    const kinds = new Set(failures.map(failure => failure.kind));
+    const skipped = failures.filter(failure => failure instanceof PasswordRequiredError).length;
+    const message = `${failures.length} of ${fileCount} files could not be cropped` +
+        (skipped > 0 ? ` (${skipped} password-protected)` : '') +
+        '. Hover over a file in the queue for details.';
+    const summary = new AppError(kinds.size === 1 ? failures[0].kind : 'unknown', message, 'BatchError');
+
+    reportError('Some files could not be cropped', summary, {
+        operation: 'batch crop',
+        details: {
+            settings,
+            files: fileCount,
+            failures: failures.map(failure => `${failure.originalName} (${failure.kind}): ${failure.message}`)
+        }
+    });
+}
 
-        let errorMessage = 'Unknown error';
-        if (error instanceof Error) {
-            errorMessage = error.message;
-        } else if (typeof error === 'string') {
-            errorMessage = error;
-        } else if (error && typeof error === 'object') {
-            errorMessage = String(error);
+/**
+ * Export margins, options, page range and bboxes as a preset file
+ */
+async function handleExportPreset(): Promise<void> {
+    if (!pdfViewer || !currentPDFData) return;
+
+    // Page boxes let the preset be scaled to differently sized pages later
+    const pageBoxes = new Map<number, PDFBBox>();
+    for (const pageIndex of pageBboxes.keys()) {
+        const pageBox = await pdfViewer.getPageBox(pageIndex + 1);
+        if (pageBox) {
+            pageBoxes.set(pageIndex, pageBox);
         }
+    }
 
-        alert('Failed to crop PDF: ' + errorMessage + '\n\nCheck browser console (F12) for full error details.');
-        hideLoading();
+    const pageRangeSelect = document.getElementById('page-range-select') as HTMLSelectElement | null;
+    const pageRangeText = document.getElementById('page-range-text') as HTMLInputElement | null;
+    const preset = createPreset(
+        currentPDFFilename,
+        totalPages,
+        getCropSettings(),
+        {
+            mode: (pageRangeSelect?.value || 'all') as PresetPageRange['mode'],
+            text: pageRangeText?.value || ''
+        },
+        getUniformSizeMode(),
+        (document.getElementById('paper-size') as HTMLSelectElement | null)?.value || 'off',
+        (document.getElementById('aspect-ratio') as HTMLSelectElement | null)?.value || 'free',
+        pageBboxes,
+        pageBoxes
+    );
+
+    const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, currentPDFFilename.replace(/\.pdf$/i, '') + '-preset.json');
+}
+
+/**
+ * Import a preset file and apply it to the open document
+ */
+async function handleImportPreset(file: File): Promise<void> {
+    if (!pdfViewer || !currentPDFData) return;
+
+    try {
+        const preset = parsePreset(await file.text());
+
+        // Validate bboxes against the pages of this document
+        const pageBoxes = new Map<number, PDFBBox>();
+        for (const entry of preset.bboxes) {
+            const pageBox = await pdfViewer.getPageBox(entry.page);
+            if (pageBox) {
+                pageBoxes.set(entry.page - 1, pageBox);
+            }
+        }
+        const { bboxes, warnings } = fitPresetToDocument(preset, totalPages, pageBoxes);
+
+        // Apply through the editor state so it can be undone
+        const { margins } = preset.settings;
+        const state = captureEditorState();
+        state.bboxes = Array.from(bboxes.entries());
+        state.reviewPages = [];
+        Object.assign(state.controls, {
+            'margin-left': margins.left.toString(),
+            'margin-right': margins.right.toString(),
+            'margin-top': margins.top.toString(),
+            'margin-bottom': margins.bottom.toString(),
+            'shrink-to-content': preset.settings.shrinkToContent,
+            'clip-content': preset.settings.clipContent,
+            'uniform-size-mode': preset.uniformSizeMode,
+            'paper-size': preset.paperSize,
+            'aspect-ratio': preset.aspectRatio,
+            'page-range-select': preset.pageRange.mode,
+            'page-range-text': preset.pageRange.text
+        });
+        if (margins.left === margins.right && margins.left === margins.top && margins.left === margins.bottom) {
+            state.controls['uniform-margin'] = margins.left.toString();
+        }
+
+        restoreEditorState(state);
+        recordHistory();
+        console.log(`Imported preset with ${bboxes.size} crop boxes`, warnings);
+
+        if (warnings.length > 0) {
+            alert('Preset imported with warnings:\n\n' + warnings.join('\n'));
+        }
+    } catch (error) {
+        console.error('Error importing preset:', error);
+        reportError('Failed to import preset', error, {
+            ...getDocumentDiagnostics('import preset'),
+            details: { presetSize: file.size }
+        });
     }
 }
 
+/**
+ * Read crop settings from the margin and option controls
+ */
+function getCropSettings(): CropSettings {
+    const marginLeftEl = document.getElementById('margin-left') as HTMLInputElement;
+    const marginTopEl = document.getElementById('margin-top') as HTMLInputElement;
+    const marginRightEl = document.getElementById('margin-right') as HTMLInputElement;
+    const marginBottomEl = document.getElementById('margin-bottom') as HTMLInputElement;
+    const shrinkToContentEl = document.getElementById('shrink-to-content') as HTMLInputElement;
+    const clipContentEl = document.getElementById('clip-content') as HTMLInputElement;
+
+    return {
+        margins: {
+            left: parseFloat(marginLeftEl?.value || '0') || 0,
+            top: parseFloat(marginTopEl?.value || '0') || 0,
+            right: parseFloat(marginRightEl?.value || '0') || 0,
+            bottom: parseFloat(marginBottomEl?.value || '0') || 0
+        },
+        shrinkToContent: shrinkToContentEl?.checked || false,
+        clipContent: clipContentEl?.checked || false
+    };
+}
+
 /**
  * Get page range based on selection
  */
@@ -759,14 +2987,18 @@ function getPageRange(): number[] | null {
         const result = [currentPage - 1];  // Current page only (0-indexed)
         console.log(`getPageRange: returning [${result}] (current page only)`);
         return result;
+    } else if (value === 'odd' || value === 'even') {
+        const result = getParityPages(totalPages, value);
+        console.log(`getPageRange: returning ${result.length} ${value} pages`);
+        return result;
     } else if (value === 'custom') {
         const textEl = document.getElementById('page-range-text') as HTMLInputElement;
         const text = textEl?.value || '';
-        // Parse range like "1-5, 8, 10-12" into array of page numbers (0-indexed)
-        const pages = parsePageRange(text);
-        const result = pages.length > 0 ? pages : null;
-        console.log(`getPageRange: custom range "${text}" => ${JSON.stringify(result)}`);
-        return result;
+        // Parse range like "1-5, 8, 10-" into array of page numbers (0-indexed)
+        const { pages, error } = parsePageRange(text, totalPages);
+        showPageRangeError(error);
+        console.log(`getPageRange: custom range "${text}" => ${error ?? JSON.stringify(pages)}`);
+        return pages;
     }
 
     console.log('getPageRange: unknown value, returning null');
@@ -774,28 +3006,46 @@ function getPageRange(): number[] | null {
 }
 
 /**
- * Parse page range string into array of page numbers
- * Example: "1-5, 8, 10-12" → [0, 1, 2, 3, 4, 7, 9, 10, 11]
+ * Show or clear the error under the custom page range input
  */
-function parsePageRange(text: string): number[] {
-    const pages = new Set<number>();
-    const parts = text.split(',').map(s => s.trim());
+function showPageRangeError(message: string | null): void {
+    document.getElementById('page-range-text')?.classList.toggle('border-red-500', !!message);
 
-    for (const part of parts) {
-        if (part.includes('-')) {
-            const [start, end] = part.split('-').map(s => parseInt(s.trim()));
-            for (let i = start; i <= end; i++) {
-                pages.add(i - 1);  // Convert to 0-indexed
-            }
-        } else {
-            const page = parseInt(part);
-            if (!isNaN(page)) {
-                pages.add(page - 1);  // Convert to 0-indexed
-            }
-        }
+    const errorEl = document.getElementById('page-range-error');
+    if (!errorEl) return;
+
+    errorEl.textContent = message ?? '';
+    errorEl.classList.toggle('hidden', !message);
+}
+
+/**
+ * Make sure a custom page range is valid before using it
+ * @returns false (and focuses the range input showing the error) if it isn't
+ */
+function ensureValidPageRange(): boolean {
+    const pages = getPageRange();
+    if (pages && pages.length === 0) {
+        document.getElementById('page-range-text')?.focus();
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Highlight the thumbnails of the pages in the page range
+ * Nothing is highlighted when all pages are selected.
+ */
+function updatePageRangeHighlight(): void {
+    const select = document.getElementById('page-range-select') as HTMLSelectElement | null;
+    const pages = select && select.value !== 'all' ? new Set(getPageRange() ?? []) : new Set<number>();
+    if (select?.value !== 'custom') {
+        showPageRangeError(null);
     }
 
-    return Array.from(pages).sort((a, b) => a - b);
+    document.querySelectorAll<HTMLElement>('.thumbnail-item').forEach(item => {
+        const pageIndex = parseInt(item.dataset.page || '0', 10) - 1;
+        item.classList.toggle('bg-primary-50', pages.has(pageIndex));
+    });
 }
 
 /**
@@ -804,6 +3054,13 @@ function parsePageRange(text: string): number[] {
 function downloadPDF(uint8Array: Uint8Array, filename: string): void {
     // Slice to ensure we have an ArrayBuffer-backed Uint8Array (not SharedArrayBuffer)
     const blob = new Blob([uint8Array.slice()], { type: 'application/pdf' });
+    downloadBlob(blob, filename);
+}
+
+/**
+ * Download a blob as a file
+ */
+function downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -816,14 +3073,37 @@ function downloadPDF(uint8Array: Uint8Array, filename: string): void {
 
 /**
  * Show loading overlay
+ * @param cancellable - Show a cancel button for worker operations
  */
-function showLoading(message: string = 'Processing...'): void {
+function showLoading(message: string = 'Processing...', cancellable: boolean = false): void {
     const loadingMessage = document.getElementById('loading-message');
     const loadingOverlay = document.getElementById('loading-overlay');
+    const loadingProgress = document.getElementById('loading-progress');
+    const loadingCancel = document.getElementById('loading-cancel') as HTMLButtonElement | null;
     if (loadingMessage) loadingMessage.textContent = message;
+    if (loadingProgress) loadingProgress.classList.add('hidden');
+    if (loadingCancel) {
+        loadingCancel.disabled = false;
+        loadingCancel.classList.toggle('hidden', !cancellable);
+    }
     if (loadingOverlay) loadingOverlay.classList.remove('hidden');
 }
 
+/**
+ * Update loading overlay progress
+ * @param fraction - Completed fraction (0-1), or null to keep the bar unchanged
+ */
+function updateLoadingProgress(fraction: number | null, message?: string): void {
+    const loadingMessage = document.getElementById('loading-message');
+    const loadingProgress = document.getElementById('loading-progress');
+    const loadingProgressBar = document.getElementById('loading-progress-bar');
+    if (message && loadingMessage) loadingMessage.textContent = message;
+    if (fraction !== null && loadingProgress && loadingProgressBar) {
+        loadingProgress.classList.remove('hidden');
+        loadingProgressBar.style.width = `${Math.round(Math.min(1, Math.max(0, fraction)) * 100)}%`;
+    }
+}
+
 /**
  * Hide loading overlay
  */
@@ -0,0 +1,165 @@
+/**
+ * Batch Queue
+ *
+ * Keeps the list of PDFs queued for batch cropping and renders it with a
+ * per-file status badge.
+ */
+
+// Processing status of a queued file
+export type BatchStatus = 'queued' | 'processing' | 'done' | 'error' | 'skipped' | 'cancelled';
+
+// A queued file
+export interface BatchItem {
+    file: File;
+    status: BatchStatus;
+    progress: number;  // 0-1 while processing
+    error: string | null;
+}
+
+// Batch queue options
+interface BatchQueueOptions {
+    onSelect?: ((index: number) => void) | null;
+}
+
+// Badge class and label for each status
+const STATUS_BADGES: Record<BatchStatus, { className: string; label: string }> = {
+    queued: { className: 'badge bg-gray-100 text-gray-700', label: 'Queued' },
+    processing: { className: 'badge-info', label: 'Cropping' },
+    done: { className: 'badge-success', label: 'Done' },
+    error: { className: 'badge bg-red-100 text-red-800', label: 'Failed' },
+    skipped: { className: 'badge-warning', label: 'Skipped' },
+    cancelled: { className: 'badge-warning', label: 'Cancelled' }
+};
+
+export class BatchQueue {
+    private container: HTMLElement;
+    private items: BatchItem[] = [];
+    private activeIndex: number = -1;  // File shown in the viewer
+
+    // Callbacks
+    private onSelect: ((index: number) => void) | null;
+
+    constructor(container: HTMLElement, options: BatchQueueOptions = {}) {
+        this.container = container;
+        this.onSelect = options.onSelect || null;
+    }
+
+    /**
+     * Replace the queue with a new set of files
+     */
+    setFiles(files: File[]): void {
+        this.items = files.map(file => ({
+            file,
+            status: 'queued',
+            progress: 0,
+            error: null
+        }));
+        this.activeIndex = files.length > 0 ? 0 : -1;
+        this.render();
+    }
+
+    /**
+     * Remove all files
+     */
+    clear(): void {
+        this.setFiles([]);
+    }
+
+    /**
+     * Get all queued items
+     */
+    getItems(): readonly BatchItem[] {
+        return this.items;
+    }
+
+    /**
+     * Number of queued files
+     */
+    size(): number {
+        return this.items.length;
+    }
+
+    /**
+     * Mark the file currently shown in the viewer
+     */
+    setActive(index: number): void {
+        this.activeIndex = index;
+        this.render();
+    }
+
+    /**
+     * Update the status of a file
+     */
+    setStatus(index: number, status: BatchStatus, error: string | null = null): void {
+        const item = this.items[index];
+        if (!item) return;
+
+        item.status = status;
+        item.error = error;
+        item.progress = status === 'done' ? 1 : 0;
+        this.render();
+    }
+
+    /**
+     * Update processing progress of a file (0-1)
+     */
+    setProgress(index: number, progress: number): void {
+        const item = this.items[index];
+        if (!item) return;
+
+        item.progress = progress;
+        const badge = this.container.querySelector(`[data-batch-index="${index}"] .batch-status`);
+        if (badge && item.status === 'processing') {
+            badge.textContent = `${STATUS_BADGES.processing.label} ${Math.round(progress * 100)}%`;
+        }
+    }
+
+    /**
+     * Render the queue list
+     */
+    private render(): void {
+        this.container.innerHTML = '';
+
+        this.items.forEach((item, index) => {
+            const row = document.createElement('div');
+            row.className = 'flex items-center justify-between gap-2 p-1.5 rounded cursor-pointer hover:bg-gray-100 transition-colors';
+            if (index === this.activeIndex) {
+                row.classList.add('bg-primary-50');
+            }
+            row.dataset.batchIndex = index.toString();
+            row.title = item.error ? `${item.file.name}: ${item.error}` : item.file.name;
+
+            const name = document.createElement('span');
+            name.className = 'text-xs text-gray-700 truncate';
+            name.textContent = item.file.name;
+
+            const badgeStyle = STATUS_BADGES[item.status];
+            const badge = document.createElement('span');
+            badge.className = `batch-status flex-shrink-0 ${badgeStyle.className}`;
+            badge.textContent = item.status === 'processing'
+                ? `${badgeStyle.label} ${Math.round(item.progress * 100)}%`
+                : badgeStyle.label;
+
+            row.appendChild(name);
+            row.appendChild(badge);
+            row.addEventListener('click', () => {
+                if (this.onSelect) {
+                    this.onSelect(index);
+                }
+            });
+
+            this.container.appendChild(row);
+        });
+    }
+}
+
+/**
+ * Create and export a batch queue instance
+ */
+export function createBatchQueue(containerId: string, options: BatchQueueOptions = {}): BatchQueue {
+    const container = document.getElementById(containerId);
+    if (!container) {
+        throw new Error(`Batch queue container with id "${containerId}" not found`);
+    }
+    return new BatchQueue(container, options);
+}
@@ -1,7 +1,7 @@
 /**
  * Interactive BBox Selection Overlay
  *
- * Handles mouse and touch interactions for drawing bounding boxes
+ * Handles mouse and touch interactions for drawing, resizing and moving bounding boxes
  * on the PDF canvas overlay.
  */
 
@@ -15,6 +15,36 @@ interface CanvasRect {
     height: number;
 }
 
+// Part of the bbox under the pointer: a corner or edge handle, or the interior
+type HitZone = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'move';
+
+// Interaction in progress: drawing a new box, or editing the existing one
+type DragMode = 'draw' | HitZone;
+
+// Part of the bbox moved by keyboard nudges: an edge (as shown on screen) or the whole box
+export type NudgeTarget = 'n' | 'e' | 's' | 'w' | 'move';
+
+// Order in which nudge targets are cycled through (null = no selection)
+const NUDGE_TARGET_ORDER: (NudgeTarget | null)[] = ['w', 'n', 'e', 's', 'move', null];
+
+// Cursor shown for each hit zone
+const HIT_ZONE_CURSORS: Record<HitZone, string> = {
+    nw: 'nwse-resize',
+    se: 'nwse-resize',
+    ne: 'nesw-resize',
+    sw: 'nesw-resize',
+    n: 'ns-resize',
+    s: 'ns-resize',
+    e: 'ew-resize',
+    w: 'ew-resize',
+    move: 'move'
+};
+
+// Handle size and hit tolerance in CSS pixels (touch gets a larger target)
+const HANDLE_SIZE = 8;
+const MOUSE_HIT_TOLERANCE = 6;
+const TOUCH_HIT_TOLERANCE = 16;
+
 // BBox Overlay options
 interface BBoxOverlayOptions {
     onBboxChange?: ((bbox: PDFBBox | null) => void) | null;
@@ -39,6 +69,18 @@ export class BBoxOverlay {
     private currentY: number = 0;
     private currentBbox: PDFBBox | null = null;
 
+    // Drag state (pointer position and box at drag start)
+    private dragMode: DragMode = 'draw';
+    private dragOriginX: number = 0;
+    private dragOriginY: number = 0;
+    private dragOriginRect: CanvasRect = { x: 0, y: 0, width: 0, height: 0 };
+
+    // Edge (or whole box) selected for keyboard nudging
+    private selectedTarget: NudgeTarget | null = null;
+
+    // Locked aspect ratio (width / height as displayed), or null for free drawing
+    private aspectRatio: number | null = null;
+
     // Callbacks
     private onBboxChange: ((bbox: PDFBBox | null) => void) | null;
     private onBboxComplete: ((bbox: PDFBBox | null) => void) | null;
@@ -51,6 +93,7 @@ export class BBoxOverlay {
 
     // Bound event handlers
     private handleMouseDown: (e: MouseEvent) => void;
+    private handleMouseHover: (e: MouseEvent) => void;
     private handleMouseMove: (e: MouseEvent) => void;
     private handleMouseUp: (e: MouseEvent) => void;
     private handleTouchStart: (e: TouchEvent) => void;
@@ -86,6 +129,7 @@ export class BBoxOverlay {
 
         // Bind event handlers
         this.handleMouseDown = this.onMouseDown.bind(this);
+        this.handleMouseHover = this.onMouseHover.bind(this);
         this.handleMouseMove = this.onMouseMove.bind(this);
         this.handleMouseUp = this.onMouseUp.bind(this);
         this.handleTouchStart = this.onTouchStart.bind(this);
@@ -100,9 +144,10 @@ export class BBoxOverlay {
      * Enable bbox selection
      */
     enable(): void {
-        // Only attach mousedown to PDF canvas
+        // Only attach mousedown (and hover for cursor feedback) to PDF canvas
         // Move and up events will be attached to document when drawing starts
         this.pdfCanvas.addEventListener('mousedown', this.handleMouseDown);
+        this.pdfCanvas.addEventListener('mousemove', this.handleMouseHover);
 
         // Touch events
         this.pdfCanvas.addEventListener('touchstart', this.handleTouchStart, { passive: false });
@@ -117,6 +162,7 @@ export class BBoxOverlay {
     disable(): void {
         // Remove mouse events from PDF canvas
         this.pdfCanvas.removeEventListener('mousedown', this.handleMouseDown);
+        this.pdfCanvas.removeEventListener('mousemove', this.handleMouseHover);
 
         // Remove document-level events (in case drawing is in progress)
         document.removeEventListener('mousemove', this.handleMouseMove);
@@ -135,7 +181,7 @@ export class BBoxOverlay {
      * Get mouse position relative to canvas (unclamped - allows free movement)
      */
     getCanvasCoordinates(event: MouseEvent): { x: number; y: number } {
-        const rect = this.overlayCanvas.getBoundingClientRect();
+        const rect = this.pdfViewer.getPageClientRect();
         return {
             x: event.clientX - rect.left,
             y: event.clientY - rect.top
@@ -146,7 +192,7 @@ export class BBoxOverlay {
      * Get touch position relative to canvas (unclamped - allows free movement)
      */
     getTouchCoordinates(event: TouchEvent): { x: number; y: number } {
-        const rect = this.overlayCanvas.getBoundingClientRect();
+        const rect = this.pdfViewer.getPageClientRect();
         const touch = event.touches[0] || event.changedTouches[0];
         return {
             x: touch.clientX - rect.left,
@@ -160,7 +206,17 @@ export class BBoxOverlay {
     private onMouseDown(event: MouseEvent): void {
         event.preventDefault();
         const pos = this.getCanvasCoordinates(event);
-        this.startDrawing(pos.x, pos.y);
+        this.startDrawing(pos.x, pos.y, MOUSE_HIT_TOLERANCE);
+    }
+
+    /**
+     * Handle mouse hover - update cursor for the handle under the pointer
+     */
+    private onMouseHover(event: MouseEvent): void {
+        if (this.isDrawing) return;
+        const pos = this.getCanvasCoordinates(event);
+        const zone = this.hitTest(pos.x, pos.y, MOUSE_HIT_TOLERANCE);
+        this.pdfCanvas.style.cursor = zone ? HIT_ZONE_CURSORS[zone] : 'crosshair';
     }
 
     /**
@@ -187,9 +243,14 @@ export class BBoxOverlay {
      * Handle touch start
      */
     private onTouchStart(event: TouchEvent): void {
+        // A second finger means pinch zoom, not drawing
+        if (event.touches.length > 1) {
+            this.cancelDrawing();
+            return;
+        }
         event.preventDefault();
         const pos = this.getTouchCoordinates(event);
-        this.startDrawing(pos.x, pos.y);
+        this.startDrawing(pos.x, pos.y, TOUCH_HIT_TOLERANCE);
     }
 
     /**
@@ -197,6 +258,10 @@ export class BBoxOverlay {
      */
     private onTouchMove(event: TouchEvent): void {
         if (!this.isDrawing) return;
+        if (event.touches.length > 1) {
+            this.cancelDrawing();
+            return;
+        }
         event.preventDefault();
         const pos = this.getTouchCoordinates(event);
         this.updateDrawing(pos.x, pos.y);
@@ -212,15 +277,64 @@ export class BBoxOverlay {
         this.finishDrawing(pos.x, pos.y);
     }
 
+    /**
+     * Hit-test a point against the current bbox
+     * Corners take precedence over edges, edges over the interior.
+     * @returns the zone under the point, or null if outside the box
+     */
+    private hitTest(x: number, y: number, tolerance: number): HitZone | null {
+        if (!this.currentBbox) return null;
+
+        const rect = this.getCanvasBbox();
+        const left = rect.x;
+        const right = rect.x + rect.width;
+        const top = rect.y;
+        const bottom = rect.y + rect.height;
+
+        const nearLeft = Math.abs(x - left) <= tolerance;
+        const nearRight = Math.abs(x - right) <= tolerance;
+        const nearTop = Math.abs(y - top) <= tolerance;
+        const nearBottom = Math.abs(y - bottom) <= tolerance;
+        const withinX = x >= left - tolerance && x <= right + tolerance;
+        const withinY = y >= top - tolerance && y <= bottom + tolerance;
+
+        if (!withinX || !withinY) return null;
+
+        // Corners
+        if (nearTop && nearLeft) return 'nw';
+        if (nearTop && nearRight) return 'ne';
+        if (nearBottom && nearLeft) return 'sw';
+        if (nearBottom && nearRight) return 'se';
+
+        // Edges
+        if (nearTop) return 'n';
+        if (nearBottom) return 's';
+        if (nearLeft) return 'w';
+        if (nearRight) return 'e';
+
+        return 'move';
+    }
+
     /**
      * Start drawing bbox
+     * Pressing on a handle or inside the current box edits it instead of
+     * starting a new one.
      */
-    private startDrawing(x: number, y: number): void {
+    private startDrawing(x: number, y: number, tolerance: number): void {
+        const zone = this.hitTest(x, y, tolerance);
+
         this.isDrawing = true;
-        this.startX = x;
-        this.startY = y;
-        this.currentX = x;
-        this.currentY = y;
+        this.dragMode = zone ?? 'draw';
+        this.dragOriginX = x;
+        this.dragOriginY = y;
+        this.dragOriginRect = this.getCanvasBbox();
+
+        if (this.dragMode === 'draw') {
+            this.startX = x;
+            this.startY = y;
+            this.currentX = x;
+            this.currentY = y;
+        }
 
         // Attach document-level events to track mouse even when outside canvas
         document.addEventListener('mousemove', this.handleMouseMove);
@@ -228,16 +342,149 @@ export class BBoxOverlay {
         document.addEventListener('touchmove', this.handleTouchMove, { passive: false });
         document.addEventListener('touchend', this.handleTouchEnd);
 
-        // Clear previous selection
-        this.clear();
+        // Clear previous selection when drawing a new box
+        if (this.dragMode === 'draw') {
+            this.clearCanvas();
+        } else {
+            this.draw();
+        }
+    }
+
+    /**
+     * Apply a pointer position to the box according to the drag mode
+     */
+    private applyDrag(x: number, y: number): void {
+        if (this.dragMode === 'draw') {
+            const corner = this.aspectRatio ? this.constrainCorner(this.startX, this.startY, x, y) : { x, y };
+            this.currentX = corner.x;
+            this.currentY = corner.y;
+            return;
+        }
+
+        const origin = this.dragOriginRect;
+        const dx = x - this.dragOriginX;
+        const dy = y - this.dragOriginY;
+        let x1 = origin.x;
+        let y1 = origin.y;
+        let x2 = origin.x + origin.width;
+        let y2 = origin.y + origin.height;
+
+        if (this.dragMode === 'move') {
+            // Translate, keeping the whole box on the canvas
+            const rect = this.pdfViewer.getPageClientRect();
+            const clampedDx = Math.max(-x1, Math.min(dx, rect.width - x2));
+            const clampedDy = Math.max(-y1, Math.min(dy, rect.height - y2));
+            x1 += clampedDx;
+            x2 += clampedDx;
+            y1 += clampedDy;
+            y2 += clampedDy;
+        } else if (this.aspectRatio) {
+            [x1, y1, x2, y2] = this.resizeWithAspect(this.dragMode, x1, y1, x2, y2, dx, dy);
+        } else {
+            // Resize the edges named by the handle (e.g. 'nw' moves top and left)
+            if (this.dragMode.includes('n')) y1 += dy;
+            if (this.dragMode.includes('s')) y2 += dy;
+            if (this.dragMode.includes('w')) x1 += dx;
+            if (this.dragMode.includes('e')) x2 += dx;
+        }
+
+        // getCanvasBbox normalizes, so dragging an edge past its opposite flips the box
+        this.startX = x1;
+        this.startY = y1;
+        this.currentX = x2;
+        this.currentY = y2;
+    }
+
+    /**
+     * Move a corner away from a fixed anchor so the box keeps the locked
+     * aspect ratio and stays on the canvas
+     * The pointer's dominant direction decides the size.
+     */
+    private constrainCorner(anchorX: number, anchorY: number, x: number, y: number): { x: number; y: number } {
+        const ratio = this.aspectRatio ?? 1;
+        const rect = this.pdfViewer.getPageClientRect();
+        const signX = x < anchorX ? -1 : 1;
+        const signY = y < anchorY ? -1 : 1;
+
+        let width = Math.abs(x - anchorX);
+        let height = Math.abs(y - anchorY);
+        if (width / ratio > height) {
+            height = width / ratio;
+        } else {
+            width = height * ratio;
+        }
+
+        // Shrink to the space available in the drag direction
+        const maxWidth = signX > 0 ? rect.width - anchorX : anchorX;
+        const maxHeight = signY > 0 ? rect.height - anchorY : anchorY;
+        if (width > maxWidth) {
+            width = maxWidth;
+            height = width / ratio;
+        }
+        if (height > maxHeight) {
+            height = maxHeight;
+            width = height * ratio;
+        }
+
+        return { x: anchorX + signX * width, y: anchorY + signY * height };
+    }
+
+    /**
+     * Resize the box from a handle while keeping the locked aspect ratio
+     * Corners keep the opposite corner fixed; edges keep the opposite edge
+     * fixed and resize the other dimension around its center.
+     * @returns [x1, y1, x2, y2]
+     */
+    private resizeWithAspect(
+        mode: HitZone,
+        x1: number,
+        y1: number,
+        x2: number,
+        y2: number,
+        dx: number,
+        dy: number
+    ): [number, number, number, number] {
+        const ratio = this.aspectRatio ?? 1;
+        const rect = this.pdfViewer.getPageClientRect();
+
+        // Place a span of the given size around a center, inside [0, limit]
+        const centerSpan = (center: number, size: number, limit: number): [number, number] => {
+            const start = Math.max(0, Math.min(center - size / 2, limit - size));
+            return [start, start + size];
+        };
+
+        if (mode.length === 2) {
+            // Corner: the opposite corner is the anchor
+            const anchorX = mode.includes('w') ? x2 : x1;
+            const anchorY = mode.includes('n') ? y2 : y1;
+            const cornerX = (mode.includes('w') ? x1 : x2) + dx;
+            const cornerY = (mode.includes('n') ? y1 : y2) + dy;
+            const corner = this.constrainCorner(anchorX, anchorY, cornerX, cornerY);
+            return [anchorX, anchorY, corner.x, corner.y];
+        }
+
+        if (mode === 'e' || mode === 'w') {
+            // Horizontal edge drag; height follows around the vertical center
+            const anchorX = mode === 'e' ? x1 : x2;
+            const edgeX = Math.max(0, Math.min((mode === 'e' ? x2 : x1) + dx, rect.width));
+            const width = Math.min(Math.abs(edgeX - anchorX), rect.height * ratio);
+            const [top, bottom] = centerSpan((y1 + y2) / 2, width / ratio, rect.height);
+            return [anchorX, top, anchorX + (edgeX < anchorX ? -width : width), bottom];
+        }
+
+        // Vertical edge drag; width follows around the horizontal center
+        const anchorY = mode === 's' ? y1 : y2;
+        const edgeY = Math.max(0, Math.min((mode === 's' ? y2 : y1) + dy, rect.height));
+        const height = Math.min(Math.abs(edgeY - anchorY), rect.width / ratio);
+        const [left, right] = centerSpan((x1 + x2) / 2, height * ratio, rect.width);
+        return [left, anchorY, right, anchorY + (edgeY < anchorY ? -height : height)];
     }
 
     /**
      * Update drawing bbox
      */
     private updateDrawing(x: number, y: number): void {
-        this.currentX = x;
-        this.currentY = y;
+        this.applyDrag(x, y);
 
         // Redraw
         this.draw();
@@ -254,10 +501,14 @@ export class BBoxOverlay {
      * Finish drawing bbox
      */
     private finishDrawing(x: number, y: number): void {
-        this.currentX = x;
-        this.currentY = y;
+        this.applyDrag(x, y);
         this.isDrawing = false;
 
+        // Dragging an edge or the box selects it for keyboard nudging
+        const mode = this.dragMode;
+        this.selectedTarget = mode === 'n' || mode === 'e' || mode === 's' || mode === 'w' || mode === 'move' ? mode : null;
+        this.dragMode = 'draw';
+
         // Remove document-level events
         document.removeEventListener('mousemove', this.handleMouseMove);
         document.removeEventListener('mouseup', this.handleMouseUp);
@@ -280,11 +531,31 @@ export class BBoxOverlay {
         }
     }
 
+    /**
+     * Abort the drag in progress and restore the box from before it
+     */
+    private cancelDrawing(): void {
+        if (!this.isDrawing) return;
+        this.isDrawing = false;
+        this.dragMode = 'draw';
+
+        document.removeEventListener('mousemove', this.handleMouseMove);
+        document.removeEventListener('mouseup', this.handleMouseUp);
+        document.removeEventListener('touchmove', this.handleTouchMove);
+        document.removeEventListener('touchend', this.handleTouchEnd);
+
+        if (this.currentBbox) {
+            this.setBbox(this.currentBbox);
+        } else {
+            this.clearCanvas();
+        }
+    }
+
     /**
      * Get current canvas bbox from drawing coordinates (clamped to canvas bounds)
      */
     private getCanvasBbox(): CanvasRect {
-        const rect = this.overlayCanvas.getBoundingClientRect();
+        const rect = this.pdfViewer.getPageClientRect();
         const canvasWidth = rect.width;
         const canvasHeight = rect.height;
 
@@ -321,7 +592,7 @@ export class BBoxOverlay {
      */
     private draw(): void {
         // Clear overlay
-        this.clear();
+        this.clearCanvas();
 
         // Get bbox rectangle
         const bbox = this.getCanvasBbox();
@@ -343,20 +614,67 @@ export class BBoxOverlay {
 
         // Draw corner handles if not currently drawing
         if (!this.isDrawing) {
+            this.drawSelectedTarget(bbox);
             this.drawHandles(bbox);
         }
     }
 
     /**
-     * Draw resize handles at corners
+     * Highlight the edge (or box outline) selected for nudging
+     */
+    private drawSelectedTarget(bbox: CanvasRect): void {
+        if (!this.selectedTarget) return;
+
+        const left = bbox.x;
+        const top = bbox.y;
+        const right = bbox.x + bbox.width;
+        const bottom = bbox.y + bbox.height;
+
+        this.ctx.save();
+        this.ctx.strokeStyle = '#f59e0b';
+        this.ctx.lineWidth = 4;
+        this.ctx.beginPath();
+        switch (this.selectedTarget) {
+            case 'n':
+                this.ctx.moveTo(left, top);
+                this.ctx.lineTo(right, top);
+                break;
+            case 's':
+                this.ctx.moveTo(left, bottom);
+                this.ctx.lineTo(right, bottom);
+                break;
+            case 'w':
+                this.ctx.moveTo(left, top);
+                this.ctx.lineTo(left, bottom);
+                break;
+            case 'e':
+                this.ctx.moveTo(right, top);
+                this.ctx.lineTo(right, bottom);
+                break;
+            case 'move':
+                this.ctx.rect(left, top, bbox.width, bbox.height);
+                break;
+        }
+        this.ctx.stroke();
+        this.ctx.restore();
+    }
+
+    /**
+     * Draw resize handles at corners and edge midpoints
      */
     private drawHandles(bbox: CanvasRect): void {
-        const handleSize = 8;
+        const handleSize = HANDLE_SIZE;
+        const midX = bbox.x + bbox.width / 2;
+        const midY = bbox.y + bbox.height / 2;
         const handles = [
             { x: bbox.x, y: bbox.y },                                    // Top-left
             { x: bbox.x + bbox.width, y: bbox.y },                      // Top-right
             { x: bbox.x, y: bbox.y + bbox.height },                     // Bottom-left
-            { x: bbox.x + bbox.width, y: bbox.y + bbox.height }         // Bottom-right
+            { x: bbox.x + bbox.width, y: bbox.y + bbox.height },        // Bottom-right
+            { x: midX, y: bbox.y },                                      // Top
+            { x: midX, y: bbox.y + bbox.height },                       // Bottom
+            { x: bbox.x, y: midY },                                      // Left
+            { x: bbox.x + bbox.width, y: midY }                         // Right
         ];
 
         this.ctx.save();
@@ -383,10 +701,127 @@ export class BBoxOverlay {
     }
 
     /**
-     * Clear overlay
+     * Clear overlay canvas without touching the selection
      */
-    clear(): void {
+    private clearCanvas(): void {
+        // The viewer shifts the context when only part of a large page is on the canvas
+        this.ctx.save();
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
         this.ctx.clearRect(0, 0, this.overlayCanvas.width, this.overlayCanvas.height);
+        this.ctx.restore();
+    }
+
+    /**
+     * Clear overlay and the current selection
+     */
+    clear(): void {
+        this.currentBbox = null;
+        this.selectedTarget = null;
+        this.clearCanvas();
+    }
+
+    /**
+     * Lock drawing and resizing to an aspect ratio (width / height as displayed)
+     * @param ratio - Aspect ratio, or null to draw freely
+     */
+    setAspectRatio(ratio: number | null): void {
+        this.aspectRatio = ratio && ratio > 0 ? ratio : null;
+    }
+
+    /**
+     * Shrink the current box around its center to the locked aspect ratio
+     * @returns true if the bbox changed
+     */
+    fitToAspectRatio(): boolean {
+        if (!this.aspectRatio || !this.currentBbox || this.isDrawing) return false;
+
+        const bbox = this.getCanvasBbox();
+        if (bbox.width <= 0 || bbox.height <= 0) return false;
+
+        let width = bbox.width;
+        let height = bbox.height;
+        if (width / height > this.aspectRatio) {
+            width = height * this.aspectRatio;
+        } else {
+            height = width / this.aspectRatio;
+        }
+
+        const centerX = bbox.x + bbox.width / 2;
+        const centerY = bbox.y + bbox.height / 2;
+        this.startX = centerX - width / 2;
+        this.startY = centerY - height / 2;
+        this.currentX = centerX + width / 2;
+        this.currentY = centerY + height / 2;
+
+        const pdfBbox = this.canvasBboxToPdf(this.getCanvasBbox());
+        this.currentBbox = pdfBbox;
+        this.draw();
+
+        if (this.onBboxComplete) {
+            this.onBboxComplete(pdfBbox);
+        }
+        return true;
+    }
+
+    /**
+     * Select the edge (or whole box) moved by nudge(), or null for none
+     */
+    selectNudgeTarget(target: NudgeTarget | null): void {
+        this.selectedTarget = this.currentBbox ? target : null;
+        if (this.currentBbox) {
+            this.draw();
+        }
+    }
+
+    /**
+     * Select the next edge for nudging: left, top, right, bottom, whole box, none
+     */
+    selectNextNudgeTarget(): NudgeTarget | null {
+        const index = NUDGE_TARGET_ORDER.indexOf(this.selectedTarget);
+        this.selectNudgeTarget(NUDGE_TARGET_ORDER[(index + 1) % NUDGE_TARGET_ORDER.length]);
+        return this.selectedTarget;
+    }
+
+    /**
+     * Get the edge (or whole box) selected for nudging
+     */
+    getNudgeTarget(): NudgeTarget | null {
+        return this.selectedTarget;
+    }
+
+    /**
+     * Move the selected edge (or whole box) on screen by a distance in PDF points
+     * Only the component matching the edge is used (left/right edges move
+     * horizontally, top/bottom edges vertically).
+     * @returns true if the bbox changed
+     */
+    nudge(dxPoints: number, dyPoints: number): boolean {
+        const target = this.selectedTarget;
+        if (!target || !this.currentBbox || this.isDrawing) return false;
+
+        const horizontal = target === 'w' || target === 'e' || target === 'move';
+        const vertical = target === 'n' || target === 's' || target === 'move';
+        const scale = this.pdfViewer.getScale();
+        const dx = horizontal ? dxPoints * scale : 0;
+        const dy = vertical ? dyPoints * scale : 0;
+        if (dx === 0 && dy === 0) return false;
+
+        // Reuse the drag logic as if the edge were dragged by (dx, dy)
+        this.dragMode = target;
+        this.dragOriginX = 0;
+        this.dragOriginY = 0;
+        this.dragOriginRect = this.getCanvasBbox();
+        this.applyDrag(dx, dy);
+        this.dragMode = 'draw';
+
+        const pdfBbox = this.canvasBboxToPdf(this.getCanvasBbox());
+        this.currentBbox = pdfBbox;
+        this.draw();
+
+        if (this.onBboxComplete) {
+            this.onBboxComplete(pdfBbox);
+        }
+        return true;
     }
 
     /**
@@ -394,7 +829,6 @@ export class BBoxOverlay {
      */
     setBbox(pdfBbox: PDFBBox | null): void {
         if (!this.pdfViewer || !pdfBbox) {
-            this.currentBbox = null;
             this.clear();
             return;
         }
@@ -414,6 +848,17 @@ export class BBoxOverlay {
         this.draw();
     }
 
+    /**
+     * Redraw the current box (e.g. after the viewer re-rendered part of the page)
+     */
+    redraw(): void {
+        if (this.currentBbox || this.isDrawing) {
+            this.draw();
+        } else {
+            this.clearCanvas();
+        }
+    }
+
     /**
      * Get current bbox in PDF coordinates
      */
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+    canvasRectToPdfBbox,
+    canvasToPdfPoint,
+    getViewportPageBox,
+    pdfBboxToCanvasRect,
+    pdfToCanvasPoint
+} from './coordinates';
+import type { CanvasRect, ViewportTransform } from './coordinates';
+import type { PDFBBox } from './pdf-viewer';
+
+/**
+ * Viewport with the same transform as PDF.js PageViewport
+ * (PageViewport isn't exported by pdfjs-dist, and getting one needs a loaded page)
+ */
+function createViewport(viewBox: number[], scale: number, rotation: number): ViewportTransform & { width: number; height: number } {
+    const [x1, y1, x2, y2] = viewBox;
+    const centerX = (x1 + x2) / 2;
+    const centerY = (y1 + y2) / 2;
+
+    let a: number, b: number, c: number, d: number;
+    switch (rotation) {
+        case 90: [a, b, c, d] = [0, 1, 1, 0]; break;
+        case 180: [a, b, c, d] = [-1, 0, 0, 1]; break;
+        case 270: [a, b, c, d] = [0, -1, -1, 0]; break;
+        default: [a, b, c, d] = [1, 0, 0, -1]; break;
+    }
+
+    const sideways = a === 0;
+    const offsetX = (sideways ? Math.abs(centerY - y1) : Math.abs(centerX - x1)) * scale;
+    const offsetY = (sideways ? Math.abs(centerX - x1) : Math.abs(centerY - y1)) * scale;
+    const m = [
+        a * scale, b * scale, c * scale, d * scale,
+        offsetX - a * scale * centerX - c * scale * centerY,
+        offsetY - b * scale * centerX - d * scale * centerY
+    ];
+    const det = m[0] * m[3] - m[1] * m[2];
+
+    return {
+        viewBox,
+        width: (sideways ? Math.abs(y2 - y1) : Math.abs(x2 - x1)) * scale,
+        height: (sideways ? Math.abs(x2 - x1) : Math.abs(y2 - y1)) * scale,
+        convertToViewportPoint: (x, y) => [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]],
+        convertToPdfPoint: (x, y) => [
+            (x * m[3] - y * m[2] + m[2] * m[5] - m[4] * m[3]) / det,
+            (-x * m[1] + y * m[0] + m[4] * m[1] - m[5] * m[0]) / det
+        ]
+    };
+}
+
+function expectRectClose(actual: CanvasRect, expected: CanvasRect): void {
+    expect(actual.x).toBeCloseTo(expected.x);
+    expect(actual.y).toBeCloseTo(expected.y);
+    expect(actual.width).toBeCloseTo(expected.width);
+    expect(actual.height).toBeCloseTo(expected.height);
+}
+
+function expectBboxClose(actual: PDFBBox, expected: PDFBBox): void {
+    expect(actual.left).toBeCloseTo(expected.left);
+    expect(actual.bottom).toBeCloseTo(expected.bottom);
+    expect(actual.right).toBeCloseTo(expected.right);
+    expect(actual.top).toBeCloseTo(expected.top);
+}
+
+// Letter page whose box starts at (50, 100) instead of the origin
+const OFFSET_BOX = [50, 100, 662, 892];
+const ORIGIN_BOX = [0, 0, 612, 792];
+
+// The PDF corner shown at the top-left of the canvas for each /Rotate
+const cases = [
+    { name: 'rotation 0', viewBox: ORIGIN_BOX, rotation: 0, topLeft: { x: 0, y: 792 } },
+    { name: 'rotation 90', viewBox: ORIGIN_BOX, rotation: 90, topLeft: { x: 0, y: 0 } },
+    { name: 'rotation 180', viewBox: ORIGIN_BOX, rotation: 180, topLeft: { x: 612, y: 0 } },
+    { name: 'rotation 270', viewBox: ORIGIN_BOX, rotation: 270, topLeft: { x: 612, y: 792 } },
+    { name: 'offset origin, rotation 0', viewBox: OFFSET_BOX, rotation: 0, topLeft: { x: 50, y: 892 } },
+    { name: 'offset origin, rotation 90', viewBox: OFFSET_BOX, rotation: 90, topLeft: { x: 50, y: 100 } },
+    { name: 'offset origin, rotation 180', viewBox: OFFSET_BOX, rotation: 180, topLeft: { x: 662, y: 100 } },
+    { name: 'offset origin, rotation 270', viewBox: OFFSET_BOX, rotation: 270, topLeft: { x: 662, y: 892 } }
+];
+
+describe.each(cases)('$name', ({ viewBox, rotation, topLeft }) => {
+    const scale = 1.5;
+    const viewport = createViewport(viewBox, scale, rotation);
+    const pageBox = getViewportPageBox(viewport);
+
+    it('maps the canvas origin to the expected page corner', () => {
+        const point = canvasToPdfPoint(viewport, 0, 0);
+        expect(point.x).toBeCloseTo(topLeft.x);
+        expect(point.y).toBeCloseTo(topLeft.y);
+    });
+
+    it('maps the page box to the whole canvas', () => {
+        expectRectClose(pdfBboxToCanvasRect(viewport, pageBox), {
+            x: 0,
+            y: 0,
+            width: viewport.width,
+            height: viewport.height
+        });
+        expectBboxClose(canvasRectToPdfBbox(viewport, { x: 0, y: 0, width: viewport.width, height: viewport.height }), pageBox);
+    });
+
+    it('round-trips a point', () => {
+        const pdf = canvasToPdfPoint(viewport, 123.5, 456.25);
+        const canvas = pdfToCanvasPoint(viewport, pdf.x, pdf.y);
+        expect(canvas.x).toBeCloseTo(123.5);
+        expect(canvas.y).toBeCloseTo(456.25);
+    });
+
+    it('round-trips a canvas rectangle', () => {
+        const rect = { x: 40, y: 70, width: 300, height: 180 };
+        expectRectClose(pdfBboxToCanvasRect(viewport, canvasRectToPdfBbox(viewport, rect)), rect);
+    });
+
+    it('round-trips a PDF bbox', () => {
+        const bbox = {
+            left: pageBox.left + 36,
+            bottom: pageBox.bottom + 72,
+            right: pageBox.right - 100,
+            top: pageBox.top - 20
+        };
+        const rect = pdfBboxToCanvasRect(viewport, bbox);
+        expect(rect.width).toBeGreaterThan(0);
+        expect(rect.height).toBeGreaterThan(0);
+        expectBboxClose(canvasRectToPdfBbox(viewport, rect), bbox);
+    });
+
+    it('keeps the bbox size in points after scaling', () => {
+        const bbox = { left: pageBox.left, bottom: pageBox.bottom, right: pageBox.left + 200, top: pageBox.bottom + 100 };
+        const rect = pdfBboxToCanvasRect(viewport, bbox);
+        const sideways = rotation === 90 || rotation === 270;
+        expect(rect.width).toBeCloseTo((sideways ? 100 : 200) * scale);
+        expect(rect.height).toBeCloseTo((sideways ? 200 : 100) * scale);
+    });
+});
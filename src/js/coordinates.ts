@@ -0,0 +1,91 @@
+/**
+ * Canvas ↔ PDF Coordinate Conversion
+ *
+ * Conversions go through the PDF.js viewport transform, which accounts for
+ * scale, page /Rotate (0/90/180/270) and a page box (CropBox or MediaBox)
+ * that doesn't start at (0, 0). PDF coordinates are unrotated user space
+ * points, as expected by cropPdf.
+ *
+ * The functions only depend on the viewport's conversion methods, so they
+ * work with any page viewport without rendering anything.
+ */
+
+import type { PDFBBox } from './pdf-viewer';
+
+// The parts of a PDF.js PageViewport used for conversion
+export interface ViewportTransform {
+    viewBox: number[];  // [x1, y1, x2, y2] page box in PDF points
+    convertToPdfPoint(x: number, y: number): number[];
+    convertToViewportPoint(x: number, y: number): number[];
+}
+
+// Rectangle in canvas (viewport) coordinates, origin top-left
+export interface CanvasRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Convert a canvas point to PDF user space
+ */
+export function canvasToPdfPoint(viewport: ViewportTransform, x: number, y: number): { x: number; y: number } {
+    const [pdfX, pdfY] = viewport.convertToPdfPoint(x, y);
+    return { x: pdfX, y: pdfY };
+}
+
+/**
+ * Convert a PDF user space point to canvas coordinates
+ */
+export function pdfToCanvasPoint(viewport: ViewportTransform, x: number, y: number): { x: number; y: number } {
+    const [canvasX, canvasY] = viewport.convertToViewportPoint(x, y);
+    return { x: canvasX, y: canvasY };
+}
+
+/**
+ * Convert a canvas rectangle to a PDF bbox
+ * With a rotated page, canvas edges map to different PDF edges, so the
+ * result is normalized from two opposite corners.
+ */
+export function canvasRectToPdfBbox(viewport: ViewportTransform, rect: CanvasRect): PDFBBox {
+    const a = canvasToPdfPoint(viewport, rect.x, rect.y);
+    const b = canvasToPdfPoint(viewport, rect.x + rect.width, rect.y + rect.height);
+
+    return {
+        left: Math.min(a.x, b.x),
+        bottom: Math.min(a.y, b.y),
+        right: Math.max(a.x, b.x),
+        top: Math.max(a.y, b.y)
+    };
+}
+
+/**
+ * Convert a PDF bbox to a canvas rectangle
+ */
+export function pdfBboxToCanvasRect(viewport: ViewportTransform, bbox: PDFBBox): CanvasRect {
+    const a = pdfToCanvasPoint(viewport, bbox.left, bbox.bottom);
+    const b = pdfToCanvasPoint(viewport, bbox.right, bbox.top);
+
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(a.x, b.x) - x,
+        height: Math.max(a.y, b.y) - y
+    };
+}
+
+/**
+ * Get the page box of a viewport as a PDF bbox
+ */
+export function getViewportPageBox(viewport: ViewportTransform): PDFBBox {
+    const [x1, y1, x2, y2] = viewport.viewBox;
+    return {
+        left: Math.min(x1, x2),
+        bottom: Math.min(y1, y2),
+        right: Math.max(x1, x2),
+        top: Math.max(y1, y2)
+    };
+}
@@ -0,0 +1,191 @@
+/**
+ * Cropped Result Preview
+ *
+ * Shows the output of a crop in a second PDF viewer next to the original,
+ * so the result can be checked page by page before downloading.
+ */
+
+import { PDFViewer, createPDFViewer } from './pdf-viewer';
+
+// Crop preview options
+interface CropPreviewOptions {
+    onDownload?: ((data: Uint8Array, filename: string) => void) | null;
+    onClose?: (() => void) | null;
+    onPageChange?: ((pageNum: number) => void) | null;
+    onLayoutChange?: (() => void) | null;
+}
+
+export class CropPreview {
+    private viewer: PDFViewer;
+    private pane: HTMLElement;
+    private originalContainer: HTMLElement;
+    private sideBySideCheckbox: HTMLInputElement | null;
+
+    private result: { data: Uint8Array; filename: string } | null = null;
+    private visible: boolean = false;
+
+    // Callbacks
+    private onDownload: ((data: Uint8Array, filename: string) => void) | null;
+    private onClose: (() => void) | null;
+    private onPageChange: ((pageNum: number) => void) | null;
+    private onLayoutChange: (() => void) | null;
+
+    constructor(options: CropPreviewOptions = {}) {
+        const pane = document.getElementById('preview-pane');
+        const originalContainer = document.getElementById('canvas-container');
+        if (!pane || !originalContainer) {
+            throw new Error('Preview pane or canvas container not found');
+        }
+        this.pane = pane;
+        this.originalContainer = originalContainer;
+        this.sideBySideCheckbox = document.getElementById('preview-side-by-side') as HTMLInputElement | null;
+
+        this.viewer = createPDFViewer('preview-canvas', 'preview-overlay-canvas', 'preview-container');
+        this.viewer.onPageChange = (pageNum, total) => this.handlePageChange(pageNum, total);
+
+        // Callbacks
+        this.onDownload = options.onDownload || null;
+        this.onClose = options.onClose || null;
+        this.onPageChange = options.onPageChange || null;
+        this.onLayoutChange = options.onLayoutChange || null;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Wire up preview toolbar buttons
+     */
+    private setupEventListeners(): void {
+        document.getElementById('preview-prev-page')?.addEventListener('click', () => {
+            this.viewer.previousPage().catch(err => console.error('Error showing preview page:', err));
+        });
+
+        document.getElementById('preview-next-page')?.addEventListener('click', () => {
+            this.viewer.nextPage().catch(err => console.error('Error showing preview page:', err));
+        });
+
+        document.getElementById('preview-download')?.addEventListener('click', () => {
+            if (this.result && this.onDownload) {
+                this.onDownload(this.result.data, this.result.filename);
+            }
+        });
+
+        document.getElementById('preview-back')?.addEventListener('click', () => {
+            this.hide();
+        });
+
+        this.sideBySideCheckbox?.addEventListener('change', () => {
+            this.updateLayout();
+        });
+    }
+
+    /**
+     * Show a cropped PDF in the preview pane
+     * @param data - Cropped PDF bytes (kept for download)
+     * @param filename - Filename to download as
+     * @param password - Password the cropped PDF is encrypted with, if any
+     */
+    async show(data: Uint8Array, filename: string, password: string | null = null): Promise<void> {
+        this.result = { data, filename };
+
+        this.pane.classList.remove('hidden');
+        this.visible = true;
+        this.updateLayout();
+
+        try {
+            // PDF.js may detach the buffer it is given, so load a copy
+            await this.viewer.close();
+            await this.viewer.loadPDF(data.slice(), password);
+
+            // Fit once the pane has been laid out
+            await new Promise(resolve => requestAnimationFrame(resolve));
+            await this.viewer.fitToPage();
+        } catch (error) {
+            this.hide();
+            throw error;
+        }
+    }
+
+    /**
+     * Hide the preview and return to editing
+     */
+    hide(): void {
+        if (!this.visible) return;
+
+        this.visible = false;
+        this.pane.classList.add('hidden');
+        this.originalContainer.classList.remove('hidden');
+        this.viewer.close().catch(err => console.error('Error closing preview document:', err));
+        this.result = null;
+
+        if (this.onLayoutChange) {
+            this.onLayoutChange();
+        }
+        if (this.onClose) {
+            this.onClose();
+        }
+    }
+
+    /**
+     * Check whether the preview is shown
+     */
+    isVisible(): boolean {
+        return this.visible;
+    }
+
+    /**
+     * Refit the preview page (e.g. after a window resize)
+     */
+    async refit(): Promise<void> {
+        if (this.visible && this.viewer.getTotalPages() > 0 && !this.viewer.isManuallyScaled()) {
+            await this.viewer.fitToPage();
+        }
+    }
+
+    /**
+     * Check whether the original is shown next to the preview
+     */
+    private isSideBySide(): boolean {
+        return this.sideBySideCheckbox?.checked ?? true;
+    }
+
+    /**
+     * Show or hide the original next to the preview
+     */
+    private updateLayout(): void {
+        this.originalContainer.classList.toggle('hidden', this.visible && !this.isSideBySide());
+
+        if (this.visible) {
+            this.refit().catch(err => console.error('Error refitting preview:', err));
+        }
+        if (this.onLayoutChange) {
+            this.onLayoutChange();
+        }
+    }
+
+    /**
+     * Update page indicator and keep the original in sync
+     */
+    private handlePageChange(pageNum: number, total: number): void {
+        const currentEl = document.getElementById('preview-current-page');
+        const totalEl = document.getElementById('preview-total-pages');
+        const prevButton = document.getElementById('preview-prev-page') as HTMLButtonElement | null;
+        const nextButton = document.getElementById('preview-next-page') as HTMLButtonElement | null;
+
+        if (currentEl) currentEl.textContent = pageNum.toString();
+        if (totalEl) totalEl.textContent = total.toString();
+        if (prevButton) prevButton.disabled = (pageNum === 1);
+        if (nextButton) nextButton.disabled = (pageNum === total);
+
+        if (this.isSideBySide() && this.onPageChange) {
+            this.onPageChange(pageNum);
+        }
+    }
+}
+
+/**
+ * Create and export a crop preview instance
+ */
+export function createCropPreview(options: CropPreviewOptions = {}): CropPreview {
+    return new CropPreview(options);
+}
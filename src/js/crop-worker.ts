@@ -0,0 +1,290 @@
+/**
+ * PDF Processing Worker Client
+ *
+ * Main-thread side of the worker protocol. Wraps request/response messages
+ * in promises, forwards progress updates and supports cancelling the
+ * running operation (cooperatively first, by terminating the worker if it
+ * is stuck inside a long WASM call).
+ */
+
+import { AppError } from './errors';
+import type {
+    CropSettings,
+    PageBboxRecord,
+    PageFailure,
+    PageRotationRecord,
+    ProgressCallback,
+    WorkerRequest,
+    WorkerResponse
+} from './worker-protocol';
+
+// How long to wait for a cooperative cancel before terminating the worker
+const CANCEL_GRACE_MS = 500;
+
+// Request payload without the id (assigned by the client)
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<WorkerRequest>;
+
+interface PendingRequest {
+    resolve: (response: WorkerResponse) => void;
+    reject: (error: Error) => void;
+    onProgress: ProgressCallback | null;
+}
+
+/**
+ * Error raised when an operation is cancelled by the user
+ */
+export class OperationCancelledError extends Error {
+    constructor() {
+        super('Operation cancelled');
+        this.name = 'OperationCancelledError';
+    }
+}
+
+/**
+ * CropWorker class
+ * Runs bbox detection and cropping in a Web Worker
+ */
+export class CropWorker {
+    private worker: Worker | null = null;
+    private nextId: number = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+
+    // Document kept on the main thread so a respawned worker can be reloaded
+    private documentData: Uint8Array | null = null;
+    private documentPageCount: number = 0;
+    private documentPassword: string | null = null;
+    private documentLoaded: boolean = false;
+    private documentLoading: Promise<void> | null = null;  // Load in flight, shared by concurrent callers
+
+    /**
+     * Start the worker and wait for the WASM module to initialize
+     */
+    async initialize(): Promise<void> {
+        await this.send({ type: 'init' });
+    }
+
+    /**
+     * Load a document into the worker (the data is copied)
+     * @param password - Password of an encrypted document (null if not encrypted)
+     */
+    async loadDocument(data: Uint8Array, pageCount: number, password: string | null = null): Promise<void> {
+        this.documentData = data.slice();
+        this.documentPageCount = pageCount;
+        this.documentPassword = password;
+        this.documentLoaded = false;
+        this.documentLoading = null;
+        await this.ensureDocument();
+    }
+
+    /**
+     * Detect content bboxes for the given pages (0-indexed)
+     */
+    async detect(
+        pages: number[],
+        onProgress: ProgressCallback | null = null
+    ): Promise<{ bboxes: PageBboxRecord; failures: PageFailure[] }> {
+        await this.ensureDocument();
+        const response = await this.send({ type: 'detect', pages }, onProgress);
+        if (response.type !== 'detected') {
+            throw new Error(`Unexpected worker response: ${response.type}`);
+        }
+        return { bboxes: response.bboxes, failures: response.failures };
+    }
+
+    /**
+     * Crop the loaded document
+     * @param rotations - Extra rotation of output pages (null to keep them as they are)
+     * @param outputPages - Pages to write to the output, in order (null for all pages)
+     * @param protectOutput - For a password-protected document: encrypt the output with its open password (false = save decrypted)
+     */
+    async crop(
+        settings: CropSettings,
+        bboxes: PageBboxRecord | null,
+        pageRange: number[] | null,
+        rotations: PageRotationRecord | null,
+        outputPages: number[] | null,
+        protectOutput: boolean,
+        onProgress: ProgressCallback | null = null
+    ): Promise<Uint8Array> {
+        await this.ensureDocument();
+        const response = await this.send(
+            { type: 'crop', settings, bboxes, pageRange, rotations, outputPages, protectOutput },
+            onProgress
+        );
+        if (response.type !== 'cropped') {
+            throw new Error(`Unexpected worker response: ${response.type}`);
+        }
+        return response.data;
+    }
+
+    /**
+     * Check whether an operation is currently running
+     */
+    isBusy(): boolean {
+        return this.pending.size > 0;
+    }
+
+    /**
+     * Cancel all running operations
+     * Pending promises reject with OperationCancelledError.
+     */
+    cancel(): void {
+        if (!this.worker || this.pending.size === 0) return;
+
+        const worker = this.worker;
+        const ids = Array.from(this.pending.keys());
+        ids.forEach(id => this.post({ type: 'cancel', id }));
+
+        // Fall back to terminating the worker if it doesn't respond in time
+        window.setTimeout(() => {
+            const stillPending = ids.some(id => this.pending.has(id));
+            if (stillPending && this.worker === worker) {
+                console.warn('Worker did not respond to cancel - terminating');
+                this.terminate();
+            }
+        }, CANCEL_GRACE_MS);
+    }
+
+    /**
+     * Terminate the worker, rejecting pending operations as cancelled
+     * A new worker is started on the next request.
+     */
+    terminate(): void {
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = null;
+        }
+        this.documentLoaded = false;
+        this.documentLoading = null;
+
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        pending.forEach(request => request.reject(new OperationCancelledError()));
+    }
+
+    /**
+     * Make sure the worker holds the current document
+     */
+    private async ensureDocument(): Promise<void> {
+        if (!this.documentData) {
+            throw new Error('No PDF document loaded');
+        }
+        if (this.documentLoaded && this.worker) return;
+
+        if (!this.documentLoading) {
+            const loading = this.sendDocument(this.documentData).finally(() => {
+                if (this.documentLoading === loading) {
+                    this.documentLoading = null;
+                }
+            });
+            this.documentLoading = loading;
+        }
+        await this.documentLoading;
+    }
+
+    /**
+     * Send the document to the worker
+     */
+    private async sendDocument(documentData: Uint8Array): Promise<void> {
+        // Transfer a copy so our own bytes stay usable
+        const data = documentData.slice();
+        await this.send(
+            { type: 'load', data, pageCount: this.documentPageCount, password: this.documentPassword },
+            null,
+            [data.buffer]
+        );
+        // Another document may have been loaded in the meantime
+        if (this.documentData === documentData) {
+            this.documentLoaded = true;
+        }
+    }
+
+    /**
+     * Get the worker, starting it if necessary
+     */
+    private getWorker(): Worker {
+        if (!this.worker) {
+            const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+            worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+                this.handleMessage(event.data);
+            });
+            worker.addEventListener('error', (event) => {
+                console.error('Worker error:', event);
+                worker.terminate();
+                if (this.worker === worker) {
+                    this.worker = null;
+                    this.documentLoaded = false;
+                }
+                this.failAll(new Error(event.message || 'Worker failed to start'));
+            });
+            this.worker = worker;
+        }
+        return this.worker;
+    }
+
+    /**
+     * Send a request and wait for its final response
+     */
+    private send(
+        body: RequestBody,
+        onProgress: ProgressCallback | null = null,
+        transfer: Transferable[] = []
+    ): Promise<WorkerResponse> {
+        const id = this.nextId++;
+        const request = { ...body, id } as WorkerRequest;
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject, onProgress });
+            this.post(request, transfer);
+        });
+    }
+
+    /**
+     * Post a message to the worker
+     */
+    private post(request: WorkerRequest, transfer: Transferable[] = []): void {
+        this.getWorker().postMessage(request, transfer);
+    }
+
+    /**
+     * Route a worker response to its pending request
+     */
+    private handleMessage(response: WorkerResponse): void {
+        const request = this.pending.get(response.id);
+        if (!request) return;
+
+        if (response.type === 'progress') {
+            if (request.onProgress) {
+                request.onProgress(response.done, response.total, response.message);
+            }
+            return;
+        }
+
+        this.pending.delete(response.id);
+
+        if (response.type === 'error') {
+            request.reject(response.kind === 'cancelled'
+                ? new OperationCancelledError()
+                : new AppError(response.kind, response.message, response.name));
+        } else {
+            request.resolve(response);
+        }
+    }
+
+    /**
+     * Reject all pending requests with an error
+     */
+    private failAll(error: Error): void {
+        const pending = Array.from(this.pending.values());
+        this.pending.clear();
+        pending.forEach(request => request.reject(error));
+    }
+}
+
+/**
+ * Create and export a crop worker instance
+ */
+export function createCropWorker(): CropWorker {
+    return new CropWorker();
+}
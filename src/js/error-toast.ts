@@ -0,0 +1,107 @@
+/**
+ * Error Toast
+ *
+ * Non-blocking error banner with an explanation of the error kind, an
+ * expandable diagnostic report and a button to copy it for a bug report.
+ * Showing a new error replaces the previous one.
+ */
+
+import { ERROR_HINTS } from './errors';
+import type { AppError } from './errors';
+
+// How long the "Copied" confirmation stays on the copy button
+const COPIED_FEEDBACK_MS = 1500;
+
+export class ErrorToast {
+    private toast: HTMLElement;
+    private titleEl: HTMLElement | null;
+    private hintEl: HTMLElement | null;
+    private detailsEl: HTMLDetailsElement | null;
+    private reportEl: HTMLElement | null;
+    private copyButton: HTMLButtonElement | null;
+
+    private report: string = '';
+    private copiedTimeout: number | undefined;
+
+    constructor() {
+        const toast = document.getElementById('error-toast');
+        if (!toast) {
+            throw new Error('Error toast element not found');
+        }
+        this.toast = toast;
+        this.titleEl = document.getElementById('error-toast-title');
+        this.hintEl = document.getElementById('error-toast-hint');
+        this.detailsEl = document.getElementById('error-toast-details') as HTMLDetailsElement | null;
+        this.reportEl = document.getElementById('error-toast-report');
+        this.copyButton = document.getElementById('error-toast-copy') as HTMLButtonElement | null;
+
+        document.getElementById('error-toast-close')?.addEventListener('click', () => this.hide());
+        this.copyButton?.addEventListener('click', () => {
+            this.copyReport().catch(err => console.error('Error copying diagnostic report:', err));
+        });
+    }
+
+    /**
+     * Show an error
+     * @param title - What failed, e.g. "Failed to crop PDF"
+     * @param report - Diagnostic report shown under "Details" and copied by the button
+     */
+    show(title: string, error: AppError, report: string): void {
+        this.report = report;
+
+        if (this.titleEl) this.titleEl.textContent = title;
+        if (this.hintEl) this.hintEl.textContent = `${ERROR_HINTS[error.kind]} (${error.message})`;
+        if (this.reportEl) this.reportEl.textContent = report;
+        if (this.detailsEl) this.detailsEl.open = false;
+        this.resetCopyButton();
+
+        this.toast.classList.remove('hidden');
+    }
+
+    /**
+     * Hide the toast
+     */
+    hide(): void {
+        this.toast.classList.add('hidden');
+    }
+
+    /**
+     * Copy the diagnostic report to the clipboard
+     * Falls back to selecting the report text if clipboard access is denied.
+     */
+    private async copyReport(): Promise<void> {
+        try {
+            await navigator.clipboard.writeText(this.report);
+        } catch (error) {
+            console.warn('Clipboard access denied:', error);
+            if (this.detailsEl && this.reportEl) {
+                this.detailsEl.open = true;
+                window.getSelection()?.selectAllChildren(this.reportEl);
+            }
+            return;
+        }
+
+        if (this.copyButton) {
+            this.copyButton.textContent = 'Copied';
+            window.clearTimeout(this.copiedTimeout);
+            this.copiedTimeout = window.setTimeout(() => this.resetCopyButton(), COPIED_FEEDBACK_MS);
+        }
+    }
+
+    /**
+     * Restore the copy button label
+     */
+    private resetCopyButton(): void {
+        window.clearTimeout(this.copiedTimeout);
+        if (this.copyButton) {
+            this.copyButton.textContent = 'Copy diagnostic report';
+        }
+    }
+}
+
+/**
+ * Create and export an error toast instance
+ */
+export function createErrorToast(): ErrorToast {
+    return new ErrorToast();
+}
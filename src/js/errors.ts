@@ -0,0 +1,157 @@
+/**
+ * Error Model
+ *
+ * Maps the errors thrown by PDF.js, the WASM module and the worker to a few
+ * kinds the UI can explain, and builds a diagnostic report for bug reports.
+ * Used on both sides of the worker protocol, so it has no DOM dependencies.
+ */
+
+// What went wrong, as far as the user is concerned
+export type ErrorKind = 'invalid-pdf' | 'invalid-preset' | 'unsupported' | 'page-out-of-range' | 'out-of-memory' | 'cancelled' | 'unknown';
+
+// Explanation shown for each kind
+export const ERROR_HINTS: Record<ErrorKind, string> = {
+    'invalid-pdf': 'The file is damaged or is not a PDF. Try re-saving it from another PDF application.',
+    'invalid-preset': 'The preset file is damaged or was not exported by this app.',
+    'unsupported': 'The file uses a PDF feature this app does not support yet.',
+    'page-out-of-range': 'A page number is outside the document. Check the page range.',
+    'out-of-memory': 'The browser ran out of memory. Try a smaller page range or close other tabs.',
+    'cancelled': 'The operation was cancelled.',
+    'unknown': 'An unexpected error occurred.'
+};
+
+// Error names (PDF.js exceptions, wasm-bindgen and app errors) with a known kind
+const KIND_BY_NAME: Record<string, ErrorKind> = {
+    InvalidPDFException: 'invalid-pdf',
+    FormatError: 'invalid-pdf',
+    MissingPDFException: 'invalid-pdf',
+    UnexpectedResponseException: 'invalid-pdf',
+    PresetError: 'invalid-preset',
+    AbortException: 'cancelled',
+    OperationCancelledError: 'cancelled',
+    CancelledError: 'cancelled',
+    RenderingCancelledException: 'cancelled'
+};
+
+// Message patterns, checked in order (WASM errors usually arrive as plain strings)
+const KIND_PATTERNS: [RegExp, ErrorKind][] = [
+    [/out of memory|memory access out of bounds|allocation failed|maximum memory size|memory\.grow/i, 'out-of-memory'],
+    [/page\b.*\bout of (range|bounds)|invalid page (number|index)|page index|page \d+ (does not exist|not found)/i, 'page-out-of-range'],
+    [/unsupported|not supported|not implemented/i, 'unsupported'],
+    [/invalid pdf|not a pdf|pdf header|failed to parse|parse error|malformed|xref|trailer|unexpected (eof|end of file)/i, 'invalid-pdf']
+];
+
+/**
+ * Error with a kind the UI can explain
+ */
+export class AppError extends Error {
+    readonly kind: ErrorKind;
+    readonly originalName: string;  // Name of the error it was mapped from
+
+    constructor(kind: ErrorKind, message: string, originalName: string = 'Error') {
+        super(message);
+        this.name = 'AppError';
+        this.kind = kind;
+        this.originalName = originalName;
+    }
+}
+
+/**
+ * Extract a readable message from an unknown error value
+ */
+export function getErrorMessage(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message;
+    } else if (typeof error === 'string') {
+        return error;
+    } else if (error && typeof error === 'object') {
+        return String(error);
+    }
+    return 'Unknown error';
+}
+
+/**
+ * Work out the kind of an error from its name and message
+ */
+export function getErrorKind(error: unknown): ErrorKind {
+    if (error instanceof AppError) {
+        return error.kind;
+    }
+
+    const name = error instanceof Error ? error.name : '';
+    if (name in KIND_BY_NAME) {
+        return KIND_BY_NAME[name];
+    }
+    if (error instanceof RangeError && /allocation|array buffer/i.test(error.message)) {
+        return 'out-of-memory';
+    }
+
+    const message = getErrorMessage(error);
+    const match = KIND_PATTERNS.find(([pattern]) => pattern.test(message));
+    return match ? match[1] : 'unknown';
+}
+
+/**
+ * Convert any thrown value to an AppError (AppErrors are returned as they are)
+ */
+export function toAppError(error: unknown): AppError {
+    if (error instanceof AppError) {
+        return error;
+    }
+
+    const appError = new AppError(
+        getErrorKind(error),
+        getErrorMessage(error),
+        error instanceof Error ? error.name : typeof error
+    );
+    if (error instanceof Error && error.stack) {
+        appError.stack = error.stack;
+    }
+    return appError;
+}
+
+// Context of a failed operation; must not contain document content or the filename
+export interface DiagnosticContext {
+    operation: string;
+    pageCount?: number;
+    fileSize?: number;
+    encrypted?: boolean;
+    details?: Record<string, unknown>;  // Settings and other plain values
+}
+
+/**
+ * Build a plain text report describing an error and the environment
+ * Only the error and the given context are included - never document bytes,
+ * text or the filename.
+ */
+export function buildDiagnosticReport(error: AppError, context: DiagnosticContext): string {
+    const lines = [
+        'pdfcrop diagnostic report',
+        `Time: ${new Date().toISOString()}`,
+        `Operation: ${context.operation}`,
+        `Error kind: ${error.kind}`,
+        `Error name: ${error.originalName}`,
+        `Message: ${error.message}`
+    ];
+
+    if (context.pageCount !== undefined) lines.push(`Pages: ${context.pageCount}`);
+    if (context.fileSize !== undefined) lines.push(`File size: ${context.fileSize} bytes`);
+    if (context.encrypted !== undefined) lines.push(`Encrypted: ${context.encrypted ? 'yes' : 'no'}`);
+    if (context.details) {
+        Object.entries(context.details).forEach(([key, value]) => {
+            lines.push(`${key}: ${JSON.stringify(value)}`);
+        });
+    }
+
+    if (typeof navigator !== 'undefined') {
+        lines.push(`Browser: ${navigator.userAgent}`);
+        const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+        if (memory) lines.push(`Device memory: ${memory} GB`);
+    }
+
+    if (error.stack) {
+        lines.push('', 'Stack:', error.stack);
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,105 @@
+/**
+ * Undo/Redo History
+ *
+ * Snapshot-based history: after every edit the caller commits the complete
+ * new state, and undo/redo step through the recorded snapshots. Committing a
+ * state equal to the current one is ignored, so callers can commit freely.
+ */
+
+// History options
+interface EditHistoryOptions {
+    limit?: number;
+    onChange?: (() => void) | null;
+}
+
+export class EditHistory<T> {
+    private states: string[] = [];  // Serialized snapshots (also makes them immutable)
+    private index: number = -1;
+    private limit: number;
+
+    // Callbacks
+    private onChange: (() => void) | null;
+
+    constructor(options: EditHistoryOptions = {}) {
+        this.limit = options.limit || 100;
+        this.onChange = options.onChange || null;
+    }
+
+    /**
+     * Start a new history from an initial state (clears undo and redo)
+     */
+    reset(initial: T): void {
+        this.states = [JSON.stringify(initial)];
+        this.index = 0;
+        this.notify();
+    }
+
+    /**
+     * Record a new state after an edit
+     * Discards any redo states; oldest states are dropped beyond the limit.
+     */
+    commit(state: T): void {
+        const serialized = JSON.stringify(state);
+        if (this.index >= 0 && this.states[this.index] === serialized) return;
+
+        this.states = this.states.slice(0, this.index + 1);
+        this.states.push(serialized);
+        if (this.states.length > this.limit) {
+            this.states.shift();
+        }
+        this.index = this.states.length - 1;
+        this.notify();
+    }
+
+    /**
+     * Step back one edit
+     * @returns the state to restore, or null if there is nothing to undo
+     */
+    undo(): T | null {
+        if (!this.canUndo()) return null;
+        this.index--;
+        this.notify();
+        return JSON.parse(this.states[this.index]) as T;
+    }
+
+    /**
+     * Step forward one edit
+     * @returns the state to restore, or null if there is nothing to redo
+     */
+    redo(): T | null {
+        if (!this.canRedo()) return null;
+        this.index++;
+        this.notify();
+        return JSON.parse(this.states[this.index]) as T;
+    }
+
+    /**
+     * Check whether undo is possible
+     */
+    canUndo(): boolean {
+        return this.index > 0;
+    }
+
+    /**
+     * Check whether redo is possible
+     */
+    canRedo(): boolean {
+        return this.index >= 0 && this.index < this.states.length - 1;
+    }
+
+    /**
+     * Trigger change callback
+     */
+    private notify(): void {
+        if (this.onChange) {
+            this.onChange();
+        }
+    }
+}
+
+/**
+ * Create and export an edit history instance
+ */
+export function createEditHistory<T>(options: EditHistoryOptions = {}): EditHistory<T> {
+    return new EditHistory<T>(options);
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFRawStream, degrees } from '@cantoo/pdf-lib';
+import { decryptPdf, finishOutput } from './pdf-postprocess';
+import { getOutputPages } from './utils';
+
+/**
+ * Build a document whose pages can be told apart by their width
+ */
+async function createDocument(widths: number[], rotations: number[] = []): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    widths.forEach((width, index) => {
+        const page = doc.addPage([width, 400]);
+        if (rotations[index]) page.setRotation(degrees(rotations[index]));
+    });
+    return doc.save();
+}
+
+/**
+ * Build an encrypted document (with object streams, as pdf-lib saves by default)
+ */
+async function createEncryptedDocument(widths: number[], password: string, ownerPassword: string = password): Promise<Uint8Array> {
+    const doc = await PDFDocument.load(await createDocument(widths));
+    doc.encrypt({ userPassword: password, ownerPassword });
+    return doc.save();
+}
+
+async function getPages(data: Uint8Array): Promise<{ width: number; rotation: number }[]> {
+    const doc = await PDFDocument.load(data);
+    return doc.getPages().map(page => ({
+        width: page.getWidth(),
+        rotation: page.getRotation().angle
+    }));
+}
+
+describe('finishOutput', () => {
+    it('returns the input when there is nothing to change', async () => {
+        const data = await createDocument([100, 200]);
+        expect(await finishOutput(data, { rotations: null, outputPages: null, password: null })).toBe(data);
+        expect(await finishOutput(data, { rotations: { 0: 360 }, outputPages: null, password: null })).toBe(data);
+    });
+
+    it('adds the rotation to each page\'s own /Rotate', async () => {
+        const data = await createDocument([100, 200, 300], [0, 90, 270]);
+        const output = await finishOutput(data, { rotations: { 0: 90, 1: 180, 2: 90 }, outputPages: null, password: null });
+
+        expect(await getPages(output)).toEqual([
+            { width: 100, rotation: 90 },
+            { width: 200, rotation: 270 },
+            { width: 300, rotation: 0 }
+        ]);
+    });
+
+    it('writes only the output pages, in the given order', async () => {
+        const data = await createDocument([100, 200, 300, 400]);
+        const output = await finishOutput(data, { rotations: null, outputPages: [3, 0, 2], password: null });
+
+        expect((await getPages(output)).map(page => page.width)).toEqual([400, 100, 300]);
+    });
+
+    it('leaves out pages excluded in the sidebar', async () => {
+        const data = await createDocument([100, 200, 300, 400]);
+        const outputPages = getOutputPages([3, 1, 2, 0], new Set([1, 0]));
+        const output = await finishOutput(data, { rotations: null, outputPages, password: null });
+
+        expect((await getPages(output)).map(page => page.width)).toEqual([400, 300]);
+    });
+
+    it('rotates pages by their index in the input when reordering', async () => {
+        const data = await createDocument([100, 200, 300]);
+        const output = await finishOutput(data, { rotations: { 2: 90 }, outputPages: [2, 1, 0], password: null });
+
+        expect(await getPages(output)).toEqual([
+            { width: 300, rotation: 90 },
+            { width: 200, rotation: 0 },
+            { width: 100, rotation: 0 }
+        ]);
+    });
+
+    it('keeps attributes inherited from intermediate page tree nodes', async () => {
+        const data = new TextEncoder().encode([
+            '%PDF-1.4',
+            '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+            '2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R] /Count 4 >> endobj',
+            '3 0 obj << /Type /Pages /Parent 2 0 R /Kids [5 0 R 6 0 R] /Count 2 /MediaBox [0 0 100 400] >> endobj',
+            '4 0 obj << /Type /Pages /Parent 2 0 R /Kids [7 0 R 8 0 R] /Count 2 /MediaBox [0 0 300 400] /Rotate 90 >> endobj',
+            '5 0 obj << /Type /Page /Parent 3 0 R >> endobj',
+            '6 0 obj << /Type /Page /Parent 3 0 R /MediaBox [0 0 200 400] >> endobj',
+            '7 0 obj << /Type /Page /Parent 4 0 R >> endobj',
+            '8 0 obj << /Type /Page /Parent 4 0 R /MediaBox [0 0 400 400] >> endobj',
+            'trailer << /Root 1 0 R /Size 9 >>',
+            '%%EOF'
+        ].join('\n'));
+
+        const output = await finishOutput(data, { rotations: null, outputPages: [3, 0, 2], password: null });
+
+        expect(await getPages(output)).toEqual([
+            { width: 400, rotation: 90 },
+            { width: 100, rotation: 0 },
+            { width: 300, rotation: 90 }
+        ]);
+    });
+
+    it('drops the content of removed pages', async () => {
+        const doc = await PDFDocument.create();
+        doc.addPage([100, 400]).drawText('kept page');
+        doc.addPage([200, 400]).drawText('removed page');
+        const data = await doc.save({ useObjectStreams: false });
+
+        const output = await finishOutput(data, { rotations: null, outputPages: [0], password: null });
+        const streams = (await PDFDocument.load(output)).context.enumerateIndirectObjects()
+            .filter(([, object]) => object instanceof PDFRawStream && !object.dict.has(PDFName.of('Type')));
+        expect(streams).toHaveLength(1);
+    });
+
+    it('encrypts the output with the given password', async () => {
+        const data = await createDocument([100, 200]);
+        const output = await finishOutput(data, { rotations: null, outputPages: null, password: 'secret' });
+
+        await expect(PDFDocument.load(output)).rejects.toThrow(/encrypted/);
+        const decrypted = await PDFDocument.load(output, { password: 'secret' });
+        expect(decrypted.getPageCount()).toBe(2);
+    });
+});
+
+describe('decryptPdf', () => {
+    it('returns an unencrypted copy of the document', async () => {
+        const data = await createEncryptedDocument([100, 200, 300], 'secret');
+        const plain = await decryptPdf(data, 'secret');
+
+        const doc = await PDFDocument.load(plain);
+        expect(doc.isEncrypted).toBe(false);
+        expect(await getPages(plain)).toEqual([
+            { width: 100, rotation: 0 },
+            { width: 200, rotation: 0 },
+            { width: 300, rotation: 0 }
+        ]);
+    });
+
+    it('decrypts a document with only an owner password without a password', async () => {
+        const data = await createEncryptedDocument([100, 200], '', 'owner');
+        await expect(PDFDocument.load(data)).rejects.toThrow(/encrypted/);
+
+        const plain = await decryptPdf(data);
+
+        expect((await PDFDocument.load(plain)).isEncrypted).toBe(false);
+        expect((await getPages(plain)).map(page => page.width)).toEqual([100, 200]);
+    });
+
+    it('returns an unencrypted document as it is', async () => {
+        const data = await createDocument([100]);
+        expect(await decryptPdf(data)).toBe(data);
+        expect(await decryptPdf(data, 'secret')).toBe(data);
+    });
+
+    it('rejects a document with a user password when none is given', async () => {
+        const data = await createEncryptedDocument([100], 'secret');
+        await expect(decryptPdf(data)).rejects.toThrow();
+    });
+
+    it('rejects a wrong password', async () => {
+        const data = await createEncryptedDocument([100], 'secret');
+        await expect(decryptPdf(data, 'wrong')).rejects.toThrow();
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * PDF Post-Processing
+ *
+ * What the pdfcrop WASM module doesn't do itself, done with pdf-lib:
+ * decrypting password-protected input before it is handed to the module,
+ * and rotating, removing, reordering and encrypting the pages of its
+ * output. Runs in the worker and has no DOM dependencies.
+ */
+
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFPageLeaf, PDFRef, PDFStream, degrees } from '@cantoo/pdf-lib';
+import type { PDFObject } from '@cantoo/pdf-lib';
+import type { PageRotationRecord } from './worker-protocol';
+
+// Edits applied to a cropped document
+export interface OutputOptions {
+    rotations: PageRotationRecord | null;  // Extra clockwise rotation keyed by 0-indexed page
+    outputPages: number[] | null;  // 0-indexed pages to write, in order (null = all)
+    password: string | null;  // Encrypt the output with this password (null = unencrypted)
+}
+
+/**
+ * Get the plain bytes of a possibly encrypted document
+ * Without a password, the empty user password is used: PDF.js opens
+ * documents that only have an owner password without asking for one.
+ * Unencrypted documents are returned as they are.
+ */
+export async function decryptPdf(data: Uint8Array, password: string | null = null): Promise<Uint8Array> {
+    if (!await isEncrypted(data)) {
+        return data;
+    }
+
+    const doc = await PDFDocument.load(data, { password: password ?? '', updateMetadata: false });
+    // The encryption dictionary and the original cross-reference streams are
+    // left behind unreferenced; saved as they are, they mark the file encrypted
+    removeUnreachableObjects(doc);
+    return doc.save();
+}
+
+/**
+ * Check whether a document's trailer refers to an encryption dictionary
+ */
+async function isEncrypted(data: Uint8Array): Promise<boolean> {
+    // The key is never compressed, so most documents are ruled out without parsing
+    if (!new TextDecoder('latin1').decode(data).includes('/Encrypt')) {
+        return false;
+    }
+    const doc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    return doc.isEncrypted;
+}
+
+/**
+ * Apply the output edits to a cropped document
+ * Pages are addressed by their index in the input document, which cropPdf
+ * keeps. The bytes are returned as they are if there is nothing to change.
+ */
+export async function finishOutput(data: Uint8Array, options: OutputOptions): Promise<Uint8Array> {
+    const rotations = Object.entries(options.rotations ?? {})
+        .filter(([, angle]) => normalizeAngle(angle) !== 0);
+    if (rotations.length === 0 && options.outputPages === null && options.password === null) {
+        return data;
+    }
+
+    const doc = await PDFDocument.load(data, { updateMetadata: false });
+
+    // Added to the page's own /Rotate, which the crop box is independent of
+    rotations.forEach(([page, angle]) => {
+        const pdfPage = doc.getPage(Number(page));
+        pdfPage.setRotation(degrees(normalizeAngle(pdfPage.getRotation().angle + angle)));
+    });
+
+    // The content of removed pages is dropped unless something else (e.g. a
+    // link) still refers to it
+    if (options.outputPages !== null) {
+        arrangePages(doc, options.outputPages);
+        removeUnreachableObjects(doc);
+    }
+
+    // Same password for user and owner, so opening it gives full access: the
+    // original owner password and permission restrictions are not carried over
+    if (options.password !== null) {
+        doc.encrypt({
+            userPassword: options.password,
+            ownerPassword: options.password,
+            permissions: {
+                printing: 'highResolution',
+                modifying: true,
+                copying: true,
+                annotating: true,
+                fillingForms: true,
+                contentAccessibility: true,
+                documentAssembly: true
+            }
+        });
+    }
+
+    return doc.save();
+}
+
+/**
+ * Rebuild the page tree from the given pages (0-indexed), in that order
+ */
+function arrangePages(doc: PDFDocument, pageIndices: number[]): void {
+    const pages = doc.getPages();
+
+    // Intermediate page tree nodes are pruned with their last page, so
+    // attributes inherited from them are copied onto the pages first
+    pages.forEach(page => {
+        PDFPageLeaf.InheritableEntries.forEach(entry => {
+            const name = PDFName.of(entry);
+            const value = page.node.getInheritableAttribute(name);
+            if (value !== undefined) page.node.set(name, value);
+        });
+    });
+
+    for (let index = pages.length - 1; index >= 0; index--) {
+        doc.removePage(index);
+    }
+    pageIndices.forEach(index => {
+        const page = pages[index];
+        // removePage also deleted the page object
+        doc.context.assign(page.ref, page.node);
+        doc.addPage(page);
+    });
+}
+
+/**
+ * Delete the indirect objects that can't be reached from the trailer
+ */
+function removeUnreachableObjects(doc: PDFDocument): void {
+    const { context } = doc;
+    const reachable = new Set<PDFRef>();
+    const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info]
+        .filter((object): object is PDFObject => object !== undefined);
+
+    while (pending.length > 0) {
+        const object = pending.pop();
+        if (object instanceof PDFRef) {
+            if (reachable.has(object)) continue;
+            reachable.add(object);
+            const target = context.lookup(object);
+            if (target) pending.push(target);
+        } else if (object instanceof PDFDict) {
+            pending.push(...object.values());
+        } else if (object instanceof PDFArray) {
+            pending.push(...object.asArray());
+        } else if (object instanceof PDFStream) {
+            pending.push(object.dict);
+        }
+    }
+
+    context.enumerateIndirectObjects()
+        .filter(([ref]) => !reachable.has(ref))
+        .forEach(([ref]) => context.delete(ref));
+}
+
+/**
+ * Bring an angle in degrees into [0, 360)
+ */
+function normalizeAngle(angle: number): number {
+    return ((angle % 360) + 360) % 360;
+}
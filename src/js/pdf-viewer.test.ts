@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { PDFDocument } from '@cantoo/pdf-lib';
+
+// The default build needs a browser (or Node 22); the legacy build runs in Node
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+
+import * as pdfjsLib from 'pdfjs-dist';
+import { PasswordCancelledError, openPDFDocument } from './pdf-viewer';
+import { finishOutput } from './pdf-postprocess';
+
+/**
+ * Crop output encrypted the way "Protect output with the same open password" writes it
+ */
+async function createEncryptedCrop(password: string): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    doc.addPage([100, 400]);
+    doc.addPage([200, 400]);
+    return finishOutput(await doc.save(), { rotations: null, outputPages: null, password });
+}
+
+describe('openPDFDocument', () => {
+    beforeAll(() => {
+        pdfjsLib.GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+    });
+
+    it('opens an encrypted crop with the known password, as the preview does', async () => {
+        const data = await createEncryptedCrop('secret');
+        const onPasswordRequest = vi.fn(() => Promise.resolve(null));
+
+        const { pdfDocument, password } = await openPDFDocument(data, 'secret', onPasswordRequest);
+
+        expect(pdfDocument.numPages).toBe(2);
+        expect(password).toBe('secret');
+        expect(onPasswordRequest).not.toHaveBeenCalled();
+        await pdfDocument.destroy();
+    });
+
+    it('asks for the password when the known one is wrong', async () => {
+        const data = await createEncryptedCrop('secret');
+        const onPasswordRequest = vi.fn((incorrect: boolean) => Promise.resolve(incorrect ? 'secret' : null));
+
+        const { pdfDocument, password } = await openPDFDocument(data, 'wrong', onPasswordRequest);
+
+        expect(pdfDocument.numPages).toBe(2);
+        expect(password).toBe('secret');
+        expect(onPasswordRequest).toHaveBeenCalledWith(true);
+        await pdfDocument.destroy();
+    });
+
+    it('fails without a password or a prompt', async () => {
+        const data = await createEncryptedCrop('secret');
+        await expect(openPDFDocument(data)).rejects.toBeInstanceOf(PasswordCancelledError);
+    });
+});
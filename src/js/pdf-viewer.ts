@@ -6,7 +6,16 @@
  */
 
 import * as pdfjsLib from 'pdfjs-dist';
-import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport, RenderTask } from 'pdfjs-dist';
+import {
+    canvasRectToPdfBbox,
+    canvasToPdfPoint,
+    getViewportPageBox,
+    pdfBboxToCanvasRect,
+    pdfToCanvasPoint
+} from './coordinates';
+import type { CanvasRect } from './coordinates';
+import { AppError, toAppError } from './errors';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -22,14 +31,6 @@ export interface PDFBBox {
     top: number;
 }
 
-// Canvas Rectangle interface
-interface CanvasRect {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-}
-
 // Bbox drawing style options
 interface BBoxStyle {
     strokeStyle?: string;
@@ -38,6 +39,83 @@ interface BBoxStyle {
     fillStyle?: string;
 }
 
+// Page display: one page at a time, or every page in a vertical scroll
+export type ViewMode = 'single' | 'continuous';
+
+// Zoom range (1.0 = 100%: one PDF point per CSS pixel)
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 8.0;
+
+// Largest canvas drawing buffer rendered at once (pixels); bigger pages are
+// rendered only around the visible part of the scroll container
+const MAX_CANVAS_PIXELS = 4096 * 4096;
+
+// Extra area rendered around the visible part of a clipped page (CSS pixels)
+const REGION_MARGIN = 256;
+
+// Point on screen to keep in place while zooming (client coordinates)
+export interface ZoomAnchor {
+    clientX: number;
+    clientY: number;
+}
+
+// Asks for the password of an encrypted PDF; resolves to null if the user cancels
+export type PasswordRequest = (incorrect: boolean) => Promise<string | null>;
+
+/**
+ * Error thrown when the user cancels the password prompt of an encrypted PDF
+ */
+export class PasswordCancelledError extends Error {
+    constructor() {
+        super('Password entry was cancelled');
+        this.name = 'PasswordCancelledError';
+    }
+}
+
+/**
+ * Error thrown for an encrypted PDF that is opened without a way to ask for its password
+ */
+export class PasswordRequiredError extends AppError {
+    constructor() {
+        super('unsupported', 'The file is password-protected. Open it on its own to crop it.', 'PasswordException');
+        this.name = 'PasswordRequiredError';
+    }
+}
+
+/**
+ * Device pixel ratio to render a canvas of this CSS size with, lowered to stay within MAX_CANVAS_PIXELS
+ */
+function getCappedOutputScale(width: number, height: number): number {
+    const outputScale = window.devicePixelRatio || 1;
+    return Math.min(outputScale, Math.sqrt(MAX_CANVAS_PIXELS / Math.max(1, width * height)));
+}
+
+/**
+ * Draw a bbox rectangle on a canvas context
+ */
+function drawBboxRect(ctx: CanvasRenderingContext2D, rect: CanvasRect, style: BBoxStyle = {}): void {
+    const {
+        strokeStyle = '#0ea5e9',
+        lineWidth = 2,
+        lineDash = [],
+        fillStyle = 'rgba(14, 165, 233, 0.1)'
+    } = style;
+
+    ctx.save();
+    ctx.strokeStyle = strokeStyle;
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash(lineDash);
+    ctx.fillStyle = fillStyle;
+
+    // Fill
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+    // Stroke
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+
+    ctx.restore();
+}
+
 /**
  * PDFViewer class
  * Manages PDF loading, rendering, and viewport
@@ -47,20 +125,52 @@ export class PDFViewer {
     private overlayCanvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private overlayCtx: CanvasRenderingContext2D;
+    private containerId: string;  // Scroll container used for fitting
 
     private pdfDocument: PDFDocumentProxy | null = null;
+    private password: string | null = null;  // Password the document was opened with
     private currentPage: number = 1;
     private totalPages: number = 0;
     private scale: number = 1.0;
     private manualScale: boolean = false;  // Track if scale was manually set
     private currentPageObject: PDFPageProxy | null = null;
     private currentViewport: PageViewport | null = null;
+    private renderTask: RenderTask | null = null;  // Render in progress on the main canvas
+    private renderSequence: number = 0;  // Latest renderPage() request; older ones give up
+    private pageRotations: ReadonlyMap<number, number> = new Map();  // 0-indexed page → extra rotation
+
+    // Continuous mode: every page gets a slot with its own canvas and bbox
+    // overlay. The interactive canvases (the stage) move into the slot of the
+    // current page, so editing works the same as in single-page mode.
+    private viewMode: ViewMode = 'single';
+    private stage: HTMLElement;      // Parent of the PDF and overlay canvases
+    private stageHome: HTMLElement;  // Where the stage lives in single-page mode
+    private pageList: HTMLElement | null = null;
+    private pageSlots: HTMLElement[] = [];  // 0-indexed
+    private pageBaseSizes: { width: number; height: number }[] = [];  // Scale 1.0 with the page's own /Rotate
+    private slotScale: number = 0;  // Scale the slots are sized for
+    private slotObserver: IntersectionObserver | null = null;
+    private visibleSlots: Set<number> = new Set();  // 1-indexed pages near the visible area
+    private slotViewports: Map<number, PageViewport> = new Map();  // 1-indexed rendered pages
+    private slotQueue: number[] = [];
+    private slotRenderTask: { pageNum: number; task: RenderTask } | null = null;
+    private renderingSlots: boolean = false;
+    private slotGeneration: number = 0;  // Incremented when rendered slots become stale
+    private pageBboxes: Map<number, PDFBBox> = new Map();  // 0-indexed, drawn on slot overlays
+    private followingScroll: boolean = false;  // Page change comes from scrolling
+    private keepScrollPosition: boolean = false;  // Zooming adjusts the scroll position itself
+    private renderedRegion: CanvasRect | null = null;  // Part of a large page on the canvas (null = whole page)
+    private regionTimeout: number | undefined;
+    private scrollTimeout: number | undefined;
+    private handleScroll: () => void;
 
     // Callbacks
     public onPageChange: ((pageNum: number, total: number) => void) | null = null;
     public onDocumentLoad: ((totalPages: number) => void) | null = null;
+    public onRegionChange: (() => void) | null = null;  // Clipped page re-rendered; redraw the overlay
+    public onPasswordRequest: PasswordRequest | null = null;
 
-    constructor(canvasId: string, overlayCanvasId: string) {
+    constructor(canvasId: string, overlayCanvasId: string, containerId: string = 'canvas-container') {
         const canvas = document.getElementById(canvasId);
         const overlayCanvas = document.getElementById(overlayCanvasId);
 
@@ -73,6 +183,7 @@ export class PDFViewer {
 
         this.canvas = canvas;
         this.overlayCanvas = overlayCanvas;
+        this.containerId = containerId;
 
         const ctx = this.canvas.getContext('2d');
         const overlayCtx = this.overlayCanvas.getContext('2d');
@@ -83,17 +194,54 @@ export class PDFViewer {
 
         this.ctx = ctx;
         this.overlayCtx = overlayCtx;
+
+        const stage = this.canvas.parentElement;
+        if (!stage || !stage.parentElement) {
+            throw new Error(`Canvas "${canvasId}" must be inside a wrapper element`);
+        }
+        this.stage = stage;
+        this.stageHome = stage.parentElement;
+
+        this.handleScroll = () => {
+            window.clearTimeout(this.scrollTimeout);
+            this.scrollTimeout = window.setTimeout(() => this.updateCurrentPageFromScroll(), 100);
+        };
+
+        // Follow the visible part of large pages while scrolling
+        document.getElementById(this.containerId)?.addEventListener('scroll', () => {
+            window.clearTimeout(this.regionTimeout);
+            this.regionTimeout = window.setTimeout(() => this.updateRenderedRegion(), 100);
+        });
     }
 
     /**
      * Load a PDF from Uint8Array
+     * Encrypted documents are opened with the given password, or ask for it
+     * through onPasswordRequest.
+     * @param password - Password of an encrypted document, if known
+     * @throws PasswordCancelledError if the user cancels the password prompt
+     * @throws AppError if the document cannot be loaded
      */
-    async loadPDF(pdfData: Uint8Array): Promise<number> {
+    async loadPDF(pdfData: Uint8Array, password: string | null = null): Promise<number> {
         try {
-            // Load the PDF document
-            const loadingTask = pdfjsLib.getDocument({ data: pdfData });
-            this.pdfDocument = await loadingTask.promise;
+            const opened = await openPDFDocument(pdfData, password, this.onPasswordRequest);
+
+            // Release the previous document only once this one has opened,
+            // so a cancelled password prompt leaves it usable
+            if (this.pdfDocument) {
+                this.renderSequence++;
+                this.renderTask?.cancel();
+                this.renderTask = null;
+                this.slotRenderTask?.task.cancel();
+                this.slotRenderTask = null;
+                this.teardownPageSlots();
+                this.currentPageObject = null;
+                await this.pdfDocument.destroy();
+            }
+            this.pdfDocument = opened.pdfDocument;
+            this.password = opened.password;
             this.totalPages = this.pdfDocument.numPages;
+            this.pageBboxes = new Map();
 
             console.log('PDF loaded successfully. Pages:', this.totalPages);
 
@@ -102,18 +250,130 @@ export class PDFViewer {
                 this.onDocumentLoad(this.totalPages);
             }
 
+            // Lay out all pages before showing the first one
+            if (this.viewMode === 'continuous') {
+                await this.buildPageSlots();
+            }
+
             // Render first page
             await this.renderPage(1);
 
             return this.totalPages;
         } catch (error) {
+            if (error instanceof PasswordCancelledError) {
+                throw error;
+            }
             console.error('Error loading PDF:', error);
-            throw new Error('Failed to load PDF: ' + (error instanceof Error ? error.message : String(error)));
+            throw toAppError(error);
         }
     }
 
+    /**
+     * Get the password the current document was opened with (null if not encrypted)
+     */
+    getPassword(): string | null {
+        return this.password;
+    }
+
+    /**
+     * Close the current document and release its resources
+     */
+    async close(): Promise<void> {
+        // Drop pending renders of this document
+        this.renderSequence++;
+        this.renderTask?.cancel();
+        this.renderTask = null;
+        this.teardownPageSlots();
+        this.pageBboxes = new Map();
+        if (this.pdfDocument) {
+            await this.pdfDocument.destroy();
+        }
+        this.pdfDocument = null;
+        this.password = null;
+        this.currentPageObject = null;
+        this.currentViewport = null;
+        this.pageRotations = new Map();
+        this.totalPages = 0;
+        this.currentPage = 1;
+    }
+
+    /**
+     * Set extra clockwise rotation (90° steps) to display pages with
+     * Added to each page's own /Rotate. Bboxes stay in unrotated PDF space.
+     * @param rotations - Rotation in degrees keyed by 0-indexed page
+     */
+    setPageRotations(rotations: ReadonlyMap<number, number>): void {
+        this.pageRotations = new Map(rotations);
+
+        // Rotated pages change their slot size
+        if (this.pageSlots.length > 0) {
+            this.resizeSlots();
+        }
+    }
+
+    /**
+     * Get the page display mode
+     */
+    getViewMode(): ViewMode {
+        return this.viewMode;
+    }
+
+    /**
+     * Switch between single-page and continuous scroll display
+     */
+    async setViewMode(mode: ViewMode): Promise<void> {
+        if (mode === this.viewMode) return;
+        this.viewMode = mode;
+        if (!this.pdfDocument) return;
+
+        if (mode === 'continuous') {
+            await this.buildPageSlots();
+        } else {
+            this.teardownPageSlots();
+        }
+        await this.renderPage(this.currentPage);
+    }
+
+    /**
+     * Set the bbox shown for a page in continuous mode
+     * The current page's bbox is drawn by the interactive overlay instead.
+     * @param pageIndex - Page number (0-indexed)
+     */
+    setPageBbox(pageIndex: number, bbox: PDFBBox | null): void {
+        if (bbox) {
+            this.pageBboxes.set(pageIndex, { ...bbox });
+        } else {
+            this.pageBboxes.delete(pageIndex);
+        }
+        this.drawSlotOverlay(pageIndex + 1);
+    }
+
+    /**
+     * Get a page viewport including the page's own and extra rotation
+     */
+    private getRotatedViewport(page: PDFPageProxy, scale: number): PageViewport {
+        const extra = this.pageRotations.get(page.pageNumber - 1) || 0;
+        return page.getViewport({ scale, rotation: (page.rotate + extra) % 360 });
+    }
+
+    /**
+     * Get current page number (1-indexed)
+     */
+    getCurrentPage(): number {
+        return this.currentPage;
+    }
+
+    /**
+     * Get total number of pages
+     */
+    getTotalPages(): number {
+        return this.totalPages;
+    }
+
     /**
      * Render a specific page
+     * Only the latest request is shown: a newer call cancels the render in
+     * progress, and onPageChange only fires for a render that completed.
      */
     async renderPage(pageNum: number): Promise<PageViewport> {
         if (!this.pdfDocument) {
@@ -124,63 +384,56 @@ export class PDFViewer {
             throw new Error(`Invalid page number: ${pageNum}`);
         }
 
+        const sequence = ++this.renderSequence;
+
         try {
             // Get the page
-            this.currentPageObject = await this.pdfDocument.getPage(pageNum);
+            const page = await this.pdfDocument.getPage(pageNum);
+            if (sequence !== this.renderSequence) {
+                // Superseded by a newer request
+                return this.getRotatedViewport(page, this.scale);
+            }
+            this.currentPageObject = page;
             this.currentPage = pageNum;
 
             // Calculate viewport to fit canvas container (only if not manually zoomed)
-            if (!this.manualScale) {
-                // Get the actual container element (canvas-container), not just the immediate parent
-                const containerEl = document.getElementById('canvas-container');
+            // Scrolling to a page of another size keeps the scale of the continuous layout.
+            if (!this.manualScale && !this.followingScroll) {
+                // Get the actual container element (e.g. canvas-container), not just the immediate parent
+                const containerEl = document.getElementById(this.containerId);
                 // Account for container padding (p-6 = 24px * 2 = 48px) plus some buffer for shadows
                 const containerWidth = (containerEl?.clientWidth || 800) - 60;
                 const containerHeight = (containerEl?.clientHeight || 600) - 60;
 
                 // Get default viewport (scale 1.0)
-                const defaultViewport = this.currentPageObject.getViewport({ scale: 1.0 });
+                const defaultViewport = this.getRotatedViewport(this.currentPageObject, 1.0);
 
                 // Calculate scale to fit container
                 const scaleX = containerWidth / defaultViewport.width;
                 const scaleY = containerHeight / defaultViewport.height;
-                this.scale = Math.max(0.5, Math.min(scaleX, scaleY, 3.0)); // Between 0.5x and 3x zoom
+                this.scale = Math.max(MIN_SCALE, Math.min(scaleX, scaleY, 3.0)); // Fit, but not beyond 3x
             }
 
             // Get viewport with calculated scale
-            this.currentViewport = this.currentPageObject.getViewport({ scale: this.scale });
-
-            // Account for device pixel ratio for high-DPI displays (Retina, etc.)
-            const outputScale = window.devicePixelRatio || 1;
-
-            // Set canvas internal resolution (drawing buffer size)
-            this.canvas.width = Math.floor(this.currentViewport.width * outputScale);
-            this.canvas.height = Math.floor(this.currentViewport.height * outputScale);
-            this.overlayCanvas.width = Math.floor(this.currentViewport.width * outputScale);
-            this.overlayCanvas.height = Math.floor(this.currentViewport.height * outputScale);
-
-            // Set canvas CSS size (logical size)
-            this.canvas.style.width = Math.floor(this.currentViewport.width) + 'px';
-            this.canvas.style.height = Math.floor(this.currentViewport.height) + 'px';
-            this.overlayCanvas.style.width = Math.floor(this.currentViewport.width) + 'px';
-            this.overlayCanvas.style.height = Math.floor(this.currentViewport.height) + 'px';
+            this.currentViewport = this.getRotatedViewport(this.currentPageObject, this.scale);
 
-            // Scale the rendering context to match the higher resolution
-            this.ctx.setTransform(outputScale, 0, 0, outputScale, 0, 0);
-            this.overlayCtx.setTransform(outputScale, 0, 0, outputScale, 0, 0);
-
-            // Clear canvas
-            this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-
-            // Render the page
-            const renderContext = {
-                canvasContext: this.ctx,
-                viewport: this.currentViewport
-            };
+            // Continuous mode: render into the page's slot
+            if (this.viewMode === 'continuous') {
+                this.placeStage(pageNum);
+            }
 
-            await this.currentPageObject.render(renderContext).promise;
+            const completed = await this.drawCurrentPage();
+            if (!completed || sequence !== this.renderSequence) {
+                return this.currentViewport;
+            }
 
             console.log(`Page ${pageNum} rendered successfully`);
 
+            // Bring the page into view unless the user scrolled to it
+            if (this.viewMode === 'continuous' && !this.followingScroll && !this.keepScrollPosition) {
+                this.pageSlots[pageNum - 1]?.scrollIntoView({ block: 'start' });
+            }
+
             // Trigger callback
             if (this.onPageChange) {
                 this.onPageChange(pageNum, this.totalPages);
@@ -193,6 +446,131 @@ export class PDFViewer {
         }
     }
 
+    /**
+     * Draw the current page on the canvas
+     * The stage always has the full page size, so layout, scrolling and
+     * coordinates are the same either way. Pages whose drawing buffer would
+     * be too large (deep zoom on big drawings) only get the visible part
+     * rendered, with the canvases placed over that part of the stage.
+     * @returns false if the render was cancelled by a newer one
+     */
+    private async drawCurrentPage(): Promise<boolean> {
+        // Never resize or draw on the canvas while PDF.js still renders into it
+        this.renderTask?.cancel();
+        this.renderTask = null;
+
+        if (!this.currentPageObject || !this.currentViewport) return false;
+
+        const width = Math.floor(this.currentViewport.width);
+        const height = Math.floor(this.currentViewport.height);
+        this.stage.style.width = width + 'px';
+        this.stage.style.height = height + 'px';
+
+        // Account for device pixel ratio for high-DPI displays (Retina, etc.)
+        let outputScale = window.devicePixelRatio || 1;
+
+        let region: CanvasRect = { x: 0, y: 0, width, height };
+        this.renderedRegion = null;
+        if (width * height * outputScale * outputScale > MAX_CANVAS_PIXELS) {
+            region = this.getVisibleRegion(REGION_MARGIN);
+            this.renderedRegion = region;
+            // Lower the resolution on screens so large that even the visible part is too big
+            outputScale = Math.min(outputScale, Math.sqrt(MAX_CANVAS_PIXELS / (region.width * region.height)));
+        }
+
+        [this.canvas, this.overlayCanvas].forEach(canvas => {
+            // Drawing buffer size and CSS size over the rendered part of the page
+            canvas.width = Math.floor(region.width * outputScale);
+            canvas.height = Math.floor(region.height * outputScale);
+            canvas.style.width = region.width + 'px';
+            canvas.style.height = region.height + 'px';
+            canvas.style.position = 'absolute';
+            canvas.style.left = region.x + 'px';
+            canvas.style.top = region.y + 'px';
+        });
+
+        // Scale to the higher resolution and shift so both contexts draw in page coordinates
+        this.ctx.setTransform(outputScale, 0, 0, outputScale, -region.x * outputScale, -region.y * outputScale);
+        this.overlayCtx.setTransform(outputScale, 0, 0, outputScale, -region.x * outputScale, -region.y * outputScale);
+
+        // Render the page
+        const renderContext = {
+            canvasContext: this.ctx,
+            viewport: this.currentViewport
+        };
+
+        const task = this.currentPageObject.render(renderContext);
+        this.renderTask = task;
+        try {
+            await task.promise;
+            return true;
+        } catch (error) {
+            if (error instanceof pdfjsLib.RenderingCancelledException) {
+                return false;
+            }
+            throw error;
+        } finally {
+            if (this.renderTask === task) {
+                this.renderTask = null;
+            }
+        }
+    }
+
+    /**
+     * Get the part of the current page visible in the scroll container
+     * @param margin - Extra CSS pixels around the visible part
+     * @returns Rectangle in page (canvas CSS) coordinates, clamped to the page
+     */
+    private getVisibleRegion(margin: number): CanvasRect {
+        const width = Math.floor(this.currentViewport?.width || 0);
+        const height = Math.floor(this.currentViewport?.height || 0);
+        const page = this.stage.getBoundingClientRect();
+        const bounds = document.getElementById(this.containerId)?.getBoundingClientRect() ?? page;
+
+        const left = Math.max(0, Math.floor(bounds.left - page.left - margin));
+        const top = Math.max(0, Math.floor(bounds.top - page.top - margin));
+        const right = Math.min(width, Math.ceil(bounds.right - page.left + margin));
+        const bottom = Math.min(height, Math.ceil(bounds.bottom - page.top + margin));
+
+        return {
+            x: Math.min(left, width - 1),
+            y: Math.min(top, height - 1),
+            width: Math.max(1, right - left),
+            height: Math.max(1, bottom - top)
+        };
+    }
+
+    /**
+     * Re-render a clipped page when scrolling reveals a part outside the rendered region
+     */
+    private updateRenderedRegion(): void {
+        const rendered = this.renderedRegion;
+        if (!rendered) return;
+
+        const visible = this.getVisibleRegion(0);
+        if (visible.x >= rendered.x && visible.y >= rendered.y &&
+            visible.x + visible.width <= rendered.x + rendered.width &&
+            visible.y + visible.height <= rendered.y + rendered.height) {
+            return;
+        }
+
+        this.drawCurrentPage()
+            .then(completed => {
+                if (completed && this.onRegionChange) {
+                    this.onRegionChange();
+                }
+            })
+            .catch(err => console.error('Error rendering page region:', err));
+    }
+
+    /**
+     * Get the on-screen rectangle of the whole current page
+     * At deep zoom the canvases only cover the visible part of it.
+     */
+    getPageClientRect(): DOMRect {
+        return this.stage.getBoundingClientRect();
+    }
+
     /**
      * Navigate to next page
      */
@@ -226,7 +604,7 @@ export class PDFViewer {
             return null;
         }
 
-        const viewport = this.currentPageObject.getViewport({ scale: 1.0 });
+        const viewport = this.getRotatedViewport(this.currentPageObject, 1.0);
         return {
             width: viewport.width,
             height: viewport.height
@@ -234,51 +612,67 @@ export class PDFViewer {
     }
 
     /**
-     * Convert canvas coordinates to PDF points
-     * Canvas origin: top-left, PDF origin: bottom-left
+     * Get dimensions of any page in PDF points
+     * @param pageNum - Page number (1-indexed)
      */
-    canvasToPDF(canvasX: number, canvasY: number): { x: number; y: number } | null {
-        if (!this.currentViewport) {
+    async getPageSize(pageNum: number): Promise<{ width: number; height: number } | null> {
+        if (!this.pdfDocument || pageNum < 1 || pageNum > this.totalPages) {
             return null;
         }
 
-        // Get page dimensions at scale 1.0
-        const pageDims = this.getPageDimensions();
-        if (!pageDims) {
-            return { x: 0, y: 0 };
-        }
-
-        // Convert canvas coords to PDF points
-        const pdfX = (canvasX / this.scale);
-        const pdfY = pageDims.height - (canvasY / this.scale);  // Flip Y axis
-
+        const page = await this.pdfDocument.getPage(pageNum);
+        const viewport = this.getRotatedViewport(page, 1.0);
         return {
-            x: pdfX,
-            y: pdfY
+            width: viewport.width,
+            height: viewport.height
         };
     }
 
     /**
-     * Convert PDF points to canvas coordinates
+     * Get the page box (CropBox, or MediaBox if none) of any page in PDF points
+     * Unlike getPageSize, this is unrotated and may not start at (0, 0).
+     * @param pageNum - Page number (1-indexed)
      */
-    pdfToCanvas(pdfX: number, pdfY: number): { x: number; y: number } | null {
-        if (!this.currentViewport) {
+    async getPageBox(pageNum: number): Promise<PDFBBox | null> {
+        const viewport = await this.getPageViewport(pageNum);
+        return viewport ? getViewportPageBox(viewport) : null;
+    }
+
+    /**
+     * Get the viewport of any page (e.g. to convert bboxes for thumbnails)
+     * @param pageNum - Page number (1-indexed)
+     * @param scale - Viewport scale (1.0 = PDF points)
+     */
+    async getPageViewport(pageNum: number, scale: number = 1.0): Promise<PageViewport | null> {
+        if (!this.pdfDocument || pageNum < 1 || pageNum > this.totalPages) {
             return null;
         }
 
-        const pageDims = this.getPageDimensions();
-        if (!pageDims) {
+        const page = await this.pdfDocument.getPage(pageNum);
+        return this.getRotatedViewport(page, scale);
+    }
+
+    /**
+     * Convert canvas coordinates to PDF points
+     * Uses the viewport transform, so page rotation and box offsets are handled.
+     */
+    canvasToPDF(canvasX: number, canvasY: number): { x: number; y: number } | null {
+        if (!this.currentViewport) {
             return null;
         }
 
-        // Convert PDF points to canvas coords
-        const canvasX = pdfX * this.scale;
-        const canvasY = (pageDims.height - pdfY) * this.scale;  // Flip Y axis
+        return canvasToPdfPoint(this.currentViewport, canvasX, canvasY);
+    }
 
-        return {
-            x: canvasX,
-            y: canvasY
-        };
+    /**
+     * Convert PDF points to canvas coordinates
+     */
+    pdfToCanvas(pdfX: number, pdfY: number): { x: number; y: number } | null {
+        if (!this.currentViewport) {
+            return null;
+        }
+
+        return pdfToCanvasPoint(this.currentViewport, pdfX, pdfY);
     }
 
     /**
@@ -287,19 +681,11 @@ export class PDFViewer {
      * @returns {left, bottom, right, top} in PDF points
      */
     canvasRectToPDFBbox(rect: CanvasRect): PDFBBox {
-        const topLeft = this.canvasToPDF(rect.x, rect.y);
-        const bottomRight = this.canvasToPDF(rect.x + rect.width, rect.y + rect.height);
-
-        if (!topLeft || !bottomRight) {
+        if (!this.currentViewport) {
             return { left: 0, bottom: 0, right: 0, top: 0 };
         }
 
-        return {
-            left: topLeft.x,
-            bottom: bottomRight.y,
-            right: bottomRight.x,
-            top: topLeft.y
-        };
+        return canvasRectToPdfBbox(this.currentViewport, rect);
     }
 
     /**
@@ -308,19 +694,11 @@ export class PDFViewer {
      * @returns {x, y, width, height} in canvas coordinates
      */
     pdfBboxToCanvasRect(bbox: PDFBBox): CanvasRect {
-        const topLeft = this.pdfToCanvas(bbox.left, bbox.top);
-        const bottomRight = this.pdfToCanvas(bbox.right, bbox.bottom);
-
-        if (!topLeft || !bottomRight) {
+        if (!this.currentViewport) {
             return { x: 0, y: 0, width: 0, height: 0 };
         }
 
-        return {
-            x: topLeft.x,
-            y: topLeft.y,
-            width: bottomRight.x - topLeft.x,
-            height: bottomRight.y - topLeft.y
-        };
+        return pdfBboxToCanvasRect(this.currentViewport, bbox);
     }
 
     /**
@@ -328,15 +706,17 @@ export class PDFViewer {
      * @param pageNum - Page number (1-indexed)
      * @param thumbnailCanvas - Canvas element to render into
      * @param maxWidth - Maximum width in CSS pixels (not accounting for DPI) - can be 0 to use actual rendered width
+     * @param signal - Cancels the render when aborted
      */
-    async renderThumbnail(pageNum: number, thumbnailCanvas: HTMLCanvasElement, maxWidth: number = 150): Promise<void> {
-        if (!this.pdfDocument) {
+    async renderThumbnail(pageNum: number, thumbnailCanvas: HTMLCanvasElement, maxWidth: number = 150, signal: AbortSignal | null = null): Promise<void> {
+        if (!this.pdfDocument || signal?.aborted) {
             return;
         }
 
         try {
             const page = await this.pdfDocument.getPage(pageNum);
-            const viewport = page.getViewport({ scale: 1.0 });
+            if (signal?.aborted) return;
+            const viewport = this.getRotatedViewport(page, 1.0);
 
             // If maxWidth is 0, use the actual rendered width of the canvas element
             let targetWidth = maxWidth;
@@ -347,7 +727,7 @@ export class PDFViewer {
 
             // Calculate scale to fit thumbnail width
             const scale = targetWidth / viewport.width;
-            const scaledViewport = page.getViewport({ scale });
+            const scaledViewport = this.getRotatedViewport(page, scale);
 
             // Account for device pixel ratio for crisp thumbnails on high-DPI displays
             const outputScale = window.devicePixelRatio || 1;
@@ -376,8 +756,16 @@ export class PDFViewer {
                 viewport: scaledViewport
             };
 
-            await page.render(renderContext).promise;
+            const task = page.render(renderContext);
+            const cancel = (): void => task.cancel();
+            signal?.addEventListener('abort', cancel);
+            try {
+                await task.promise;
+            } finally {
+                signal?.removeEventListener('abort', cancel);
+            }
         } catch (error) {
+            if (error instanceof pdfjsLib.RenderingCancelledException) return;
             console.error('Error rendering thumbnail:', error);
         }
     }
@@ -386,35 +774,17 @@ export class PDFViewer {
      * Clear overlay canvas
      */
     clearOverlay(): void {
+        this.overlayCtx.save();
+        this.overlayCtx.setTransform(1, 0, 0, 1, 0, 0);
         this.overlayCtx.clearRect(0, 0, this.overlayCanvas.width, this.overlayCanvas.height);
+        this.overlayCtx.restore();
     }
 
     /**
      * Draw a bbox rectangle on overlay
      */
     drawBboxOnOverlay(bbox: PDFBBox, style: BBoxStyle = {}): void {
-        const {
-            strokeStyle = '#0ea5e9',
-            lineWidth = 2,
-            lineDash = [],
-            fillStyle = 'rgba(14, 165, 233, 0.1)'
-        } = style;
-
-        const rect = this.pdfBboxToCanvasRect(bbox);
-
-        this.overlayCtx.save();
-        this.overlayCtx.strokeStyle = strokeStyle;
-        this.overlayCtx.lineWidth = lineWidth;
-        this.overlayCtx.setLineDash(lineDash);
-        this.overlayCtx.fillStyle = fillStyle;
-
-        // Fill
-        this.overlayCtx.fillRect(rect.x, rect.y, rect.width, rect.height);
-
-        // Stroke
-        this.overlayCtx.strokeRect(rect.x, rect.y, rect.width, rect.height);
-
-        this.overlayCtx.restore();
+        drawBboxRect(this.overlayCtx, this.pdfBboxToCanvasRect(bbox), style);
     }
 
     /**
@@ -433,25 +803,59 @@ export class PDFViewer {
 
     /**
      * Set zoom scale and re-render
+     * The page point under the anchor (default: center of the container)
+     * stays in place, so zooming with the wheel or a pinch follows the pointer.
      */
-    async setScale(newScale: number): Promise<void> {
-        this.scale = Math.max(0.5, Math.min(3.0, newScale)); // Clamp between 0.5x and 3x
+    async setScale(newScale: number, anchor: ZoomAnchor | null = null): Promise<void> {
+        this.scale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, newScale));
         this.manualScale = true;  // Mark as manually scaled
-        await this.renderPage(this.currentPage);
+
+        const container = document.getElementById(this.containerId);
+        if (!container || !this.currentViewport) {
+            await this.renderPage(this.currentPage);
+            return;
+        }
+
+        // Anchor position relative to the page before zooming
+        const bounds = container.getBoundingClientRect();
+        const point = anchor ?? {
+            clientX: bounds.left + bounds.width / 2,
+            clientY: bounds.top + bounds.height / 2
+        };
+        const before = this.stage.getBoundingClientRect();
+        const offsetX = point.clientX - before.left;
+        const offsetY = point.clientY - before.top;
+
+        this.keepScrollPosition = true;
+        const sequence = this.renderSequence + 1;
+        try {
+            await this.renderPage(this.currentPage);
+        } finally {
+            this.keepScrollPosition = false;
+        }
+
+        // A newer zoom takes care of the scroll position
+        if (sequence !== this.renderSequence || before.width === 0) return;
+
+        // Scroll so the same page point is under the anchor again
+        const after = this.stage.getBoundingClientRect();
+        const ratio = after.width / before.width;
+        container.scrollLeft += after.left + offsetX * ratio - point.clientX;
+        container.scrollTop += after.top + offsetY * ratio - point.clientY;
     }
 
     /**
      * Zoom in
      */
-    async zoomIn(): Promise<void> {
-        await this.setScale(this.scale * 1.25);
+    async zoomIn(anchor: ZoomAnchor | null = null): Promise<void> {
+        await this.setScale(this.scale * 1.25, anchor);
     }
 
     /**
      * Zoom out
      */
-    async zoomOut(): Promise<void> {
-        await this.setScale(this.scale / 1.25);
+    async zoomOut(anchor: ZoomAnchor | null = null): Promise<void> {
+        await this.setScale(this.scale / 1.25, anchor);
     }
 
     /**
@@ -460,9 +864,9 @@ export class PDFViewer {
     async fitToWidth(): Promise<void> {
         if (!this.currentPageObject) return;
 
-        const containerEl = document.getElementById('canvas-container');
+        const containerEl = document.getElementById(this.containerId);
         const containerWidth = (containerEl?.clientWidth || 800) - 60;
-        const defaultViewport = this.currentPageObject.getViewport({ scale: 1.0 });
+        const defaultViewport = this.getRotatedViewport(this.currentPageObject, 1.0);
         const newScale = containerWidth / defaultViewport.width;
 
         await this.setScale(newScale);
@@ -475,11 +879,386 @@ export class PDFViewer {
         this.manualScale = false;  // Reset manual scale flag
         await this.renderPage(this.currentPage);
     }
+
+    /**
+     * Create a slot for every page in the scroll container (continuous mode)
+     */
+    private async buildPageSlots(): Promise<void> {
+        this.teardownPageSlots();
+
+        const container = document.getElementById(this.containerId);
+        const pdfDocument = this.pdfDocument;
+        if (!container || !pdfDocument) return;
+
+        // Slots need every page's size up front so the scroll height is right
+        const sizes: { width: number; height: number }[] = [];
+        for (let i = 1; i <= pdfDocument.numPages; i++) {
+            const page = await pdfDocument.getPage(i);
+            const viewport = page.getViewport({ scale: 1.0, rotation: page.rotate });
+            sizes.push({ width: viewport.width, height: viewport.height });
+        }
+        if (this.pdfDocument !== pdfDocument || this.viewMode !== 'continuous') return;
+        this.pageBaseSizes = sizes;
+
+        const list = document.createElement('div');
+        list.className = 'flex flex-col items-center gap-4';
+        list.style.width = 'fit-content';
+        list.style.minWidth = '100%';
+
+        this.pageSlots = sizes.map((_, index) => {
+            const slot = document.createElement('div');
+            slot.className = 'relative shadow-lg bg-white flex-shrink-0';
+            slot.dataset.page = (index + 1).toString();
+
+            const canvas = document.createElement('canvas');
+            canvas.className = 'absolute top-0 left-0';
+            const overlay = document.createElement('canvas');
+            overlay.className = 'absolute top-0 left-0';
+            overlay.style.pointerEvents = 'none';
+
+            slot.appendChild(canvas);
+            slot.appendChild(overlay);
+            list.appendChild(slot);
+            return slot;
+        });
+
+        this.stageHome.classList.add('hidden');
+        container.appendChild(list);
+        this.pageList = list;
+        this.resizeSlots();
+
+        // Render pages shortly before they scroll into view
+        this.slotObserver = new IntersectionObserver(entries => this.handleSlotIntersection(entries), {
+            root: container,
+            rootMargin: '600px 0px'
+        });
+        this.pageSlots.forEach(slot => this.slotObserver?.observe(slot));
+        container.addEventListener('scroll', this.handleScroll);
+    }
+
+    /**
+     * Remove the page slots and move the stage back (single-page mode)
+     */
+    private teardownPageSlots(): void {
+        this.slotGeneration++;
+        this.slotObserver?.disconnect();
+        this.slotObserver = null;
+        window.clearTimeout(this.scrollTimeout);
+        document.getElementById(this.containerId)?.removeEventListener('scroll', this.handleScroll);
+
+        if (this.stage.parentElement !== this.stageHome) {
+            this.stageHome.appendChild(this.stage);
+        }
+        this.stageHome.classList.remove('hidden');
+
+        this.pageList?.remove();
+        this.pageList = null;
+        this.pageSlots = [];
+        this.pageBaseSizes = [];
+        this.slotScale = 0;
+        this.visibleSlots.clear();
+        this.slotViewports.clear();
+        this.slotQueue = [];
+    }
+
+    /**
+     * Size the slots for the current scale and rotations; rendered pages are redrawn
+     */
+    private resizeSlots(): void {
+        this.slotScale = this.scale;
+        this.slotGeneration++;
+
+        this.pageSlots.forEach((slot, index) => {
+            const base = this.pageBaseSizes[index];
+            const extra = this.pageRotations.get(index) || 0;
+            const width = (extra % 180 === 0 ? base.width : base.height) * this.scale;
+            const height = (extra % 180 === 0 ? base.height : base.width) * this.scale;
+            slot.style.width = Math.floor(width) + 'px';
+            slot.style.height = Math.floor(height) + 'px';
+            this.releaseSlot(index + 1);
+        });
+
+        Array.from(this.visibleSlots).sort((a, b) => a - b).forEach(pageNum => this.enqueueSlot(pageNum));
+    }
+
+    /**
+     * Move the stage into the slot of a page and show the previous page's own canvas again
+     * @param pageNum - Page number (1-indexed)
+     */
+    private placeStage(pageNum: number): void {
+        if (this.slotScale !== this.scale) {
+            this.resizeSlots();
+        }
+
+        const slot = this.pageSlots[pageNum - 1];
+        const previous = this.stage.parentElement;
+        if (!slot || previous === slot) return;
+
+        if (previous && previous !== this.stageHome) {
+            const previousPage = parseInt(previous.dataset.page || '0', 10);
+            previous.querySelectorAll(':scope > canvas').forEach(canvas => canvas.classList.remove('hidden'));
+            if (this.visibleSlots.has(previousPage)) {
+                this.enqueueSlot(previousPage);
+            }
+        }
+
+        this.releaseSlot(pageNum);
+        slot.querySelectorAll(':scope > canvas').forEach(canvas => canvas.classList.add('hidden'));
+        slot.appendChild(this.stage);
+    }
+
+    /**
+     * Track slots entering and leaving the render area
+     */
+    private handleSlotIntersection(entries: IntersectionObserverEntry[]): void {
+        entries.forEach(entry => {
+            const pageNum = parseInt((entry.target as HTMLElement).dataset.page || '0', 10);
+            if (entry.isIntersecting) {
+                this.visibleSlots.add(pageNum);
+                this.enqueueSlot(pageNum);
+            } else {
+                this.visibleSlots.delete(pageNum);
+                this.releaseSlot(pageNum);
+            }
+        });
+    }
+
+    /**
+     * Queue a slot for rendering and start the render loop
+     */
+    private enqueueSlot(pageNum: number): void {
+        if (!this.slotQueue.includes(pageNum)) {
+            this.slotQueue.push(pageNum);
+        }
+        if (!this.renderingSlots) {
+            this.processSlotQueue().catch(err => console.error('Error rendering pages:', err));
+        }
+    }
+
+    /**
+     * Render queued slots one at a time, skipping pages that scrolled away
+     */
+    private async processSlotQueue(): Promise<void> {
+        this.renderingSlots = true;
+        try {
+            while (this.slotQueue.length > 0) {
+                const pageNum = this.slotQueue.shift() as number;
+                const slot = this.pageSlots[pageNum - 1];
+                if (!slot || !this.visibleSlots.has(pageNum) || this.slotViewports.has(pageNum)) continue;
+                if (this.stage.parentElement === slot) continue;
+
+                try {
+                    await this.renderSlot(pageNum, slot);
+                } catch (error) {
+                    console.error(`Error rendering page ${pageNum}:`, error);
+                }
+            }
+        } finally {
+            this.renderingSlots = false;
+        }
+    }
+
+    /**
+     * Render a page into its slot's own canvas
+     */
+    private async renderSlot(pageNum: number, slot: HTMLElement): Promise<void> {
+        if (!this.pdfDocument) return;
+
+        const generation = this.slotGeneration;
+        const page = await this.pdfDocument.getPage(pageNum);
+        const viewport = this.getRotatedViewport(page, this.slotScale);
+        const canvas = slot.querySelector(':scope > canvas') as HTMLCanvasElement | null;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || generation !== this.slotGeneration) return;
+
+        // Pages other than the current one are never clipped, only rendered at a lower resolution
+        const outputScale = getCappedOutputScale(viewport.width, viewport.height);
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        canvas.style.width = Math.floor(viewport.width) + 'px';
+        canvas.style.height = Math.floor(viewport.height) + 'px';
+        ctx.setTransform(outputScale, 0, 0, outputScale, 0, 0);
+
+        const task = page.render({ canvasContext: ctx, viewport });
+        this.slotRenderTask = { pageNum, task };
+        try {
+            await task.promise;
+        } catch (error) {
+            if (error instanceof pdfjsLib.RenderingCancelledException) return;
+            throw error;
+        } finally {
+            if (this.slotRenderTask?.task === task) {
+                this.slotRenderTask = null;
+            }
+        }
+        if (generation !== this.slotGeneration || !this.visibleSlots.has(pageNum)) {
+            // Stale or scrolled away while rendering
+            this.releaseSlot(pageNum);
+            return;
+        }
+
+        this.slotViewports.set(pageNum, viewport);
+        this.drawSlotOverlay(pageNum);
+    }
+
+    /**
+     * Draw the stored bbox of a rendered slot
+     * @param pageNum - Page number (1-indexed)
+     */
+    private drawSlotOverlay(pageNum: number): void {
+        const slot = this.pageSlots[pageNum - 1];
+        const viewport = this.slotViewports.get(pageNum);
+        const overlay = slot?.querySelectorAll(':scope > canvas')[1] as HTMLCanvasElement | undefined;
+        const ctx = overlay?.getContext('2d');
+        if (!overlay || !ctx || !viewport) return;
+
+        const outputScale = getCappedOutputScale(viewport.width, viewport.height);
+        overlay.width = Math.floor(viewport.width * outputScale);
+        overlay.height = Math.floor(viewport.height * outputScale);
+        overlay.style.width = Math.floor(viewport.width) + 'px';
+        overlay.style.height = Math.floor(viewport.height) + 'px';
+        ctx.setTransform(outputScale, 0, 0, outputScale, 0, 0);
+
+        const bbox = this.pageBboxes.get(pageNum - 1);
+        if (bbox) {
+            drawBboxRect(ctx, pdfBboxToCanvasRect(viewport, bbox));
+        }
+    }
+
+    /**
+     * Free the pixels of a slot's canvases
+     * @param pageNum - Page number (1-indexed)
+     */
+    private releaseSlot(pageNum: number): void {
+        if (this.slotRenderTask?.pageNum === pageNum) {
+            this.slotRenderTask.task.cancel();
+            this.slotRenderTask = null;
+        }
+        this.slotViewports.delete(pageNum);
+        this.pageSlots[pageNum - 1]?.querySelectorAll(':scope > canvas').forEach(element => {
+            const canvas = element as HTMLCanvasElement;
+            canvas.width = 0;
+            canvas.height = 0;
+        });
+    }
+
+    /**
+     * Make the page filling most of the scroll container the current page
+     * The current page stays current while at least half of it is visible.
+     */
+    private updateCurrentPageFromScroll(): void {
+        const container = document.getElementById(this.containerId);
+        if (!container || this.viewMode !== 'continuous') return;
+
+        const bounds = container.getBoundingClientRect();
+        const visibleFraction = (pageNum: number): number => {
+            const rect = this.pageSlots[pageNum - 1]?.getBoundingClientRect();
+            if (!rect || rect.height === 0) return 0;
+            const visible = Math.min(rect.bottom, bounds.bottom) - Math.max(rect.top, bounds.top);
+            return Math.max(0, visible) / Math.min(rect.height, bounds.height);
+        };
+
+        if (visibleFraction(this.currentPage) >= 0.5) return;
+
+        let bestPage = this.currentPage;
+        let bestFraction = 0;
+        Array.from(this.visibleSlots).sort((a, b) => a - b).forEach(pageNum => {
+            const fraction = visibleFraction(pageNum);
+            if (fraction > bestFraction) {
+                bestPage = pageNum;
+                bestFraction = fraction;
+            }
+        });
+        if (bestPage === this.currentPage) return;
+
+        this.followingScroll = true;
+        this.renderPage(bestPage)
+            .catch(err => console.error('Error rendering page:', err))
+            .finally(() => {
+                this.followingScroll = false;
+            });
+    }
+}
+
+/**
+ * Open a PDF with PDF.js
+ * A known password is tried first; if there is none or it is wrong, the
+ * password is asked for through onPasswordRequest.
+ * @param pdfData - PDF bytes (may be detached by PDF.js - pass a copy)
+ * @returns The document and the password it was opened with
+ * @throws PasswordCancelledError if the password prompt is cancelled or there is none
+ * @throws AppError if the document cannot be loaded
+ */
+export async function openPDFDocument(
+    pdfData: Uint8Array,
+    password: string | null = null,
+    onPasswordRequest: PasswordRequest | null = null
+): Promise<{ pdfDocument: PDFDocumentProxy; password: string | null }> {
+    let usedPassword = password;
+    let passwordCancelled = false;
+
+    const loadingTask = pdfjsLib.getDocument({ data: pdfData, password: password ?? undefined });
+    loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+        const incorrect = reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD;
+        const request = onPasswordRequest ? onPasswordRequest(incorrect) : Promise.resolve(null);
+        request.then(newPassword => {
+            if (newPassword === null) {
+                passwordCancelled = true;
+                loadingTask.destroy();
+                return;
+            }
+            usedPassword = newPassword;
+            updatePassword(newPassword);
+        });
+    };
+
+    try {
+        const pdfDocument = await loadingTask.promise;
+        return { pdfDocument, password: usedPassword };
+    } catch (error) {
+        if (passwordCancelled) {
+            throw new PasswordCancelledError();
+        }
+        throw toAppError(error);
+    }
+}
+
+/**
+ * Count the pages of a PDF without loading it into a viewer
+ * Encrypted PDFs are rejected instead of asking for a password.
+ * @param pdfData - PDF bytes (may be detached by PDF.js - pass a copy)
+ * @throws PasswordRequiredError if the PDF has a password
+ */
+export async function getPDFPageCount(pdfData: Uint8Array): Promise<number> {
+    const loadingTask = pdfjsLib.getDocument({ data: pdfData });
+    loadingTask.onPassword = () => {
+        loadingTask.destroy();
+    };
+
+    let pdfDocument: PDFDocumentProxy;
+    try {
+        pdfDocument = await loadingTask.promise;
+    } catch (error) {
+        if (loadingTask.destroyed) {
+            throw new PasswordRequiredError();
+        }
+        throw toAppError(error);
+    }
+
+    try {
+        return pdfDocument.numPages;
+    } finally {
+        await pdfDocument.destroy();
+    }
 }
 
 /**
  * Create and export a PDF viewer instance
  */
-export function createPDFViewer(canvasId: string = 'pdf-canvas', overlayCanvasId: string = 'overlay-canvas'): PDFViewer {
-    return new PDFViewer(canvasId, overlayCanvasId);
+export function createPDFViewer(
+    canvasId: string = 'pdf-canvas',
+    overlayCanvasId: string = 'overlay-canvas',
+    containerId: string = 'canvas-container'
+): PDFViewer {
+    return new PDFViewer(canvasId, overlayCanvasId, containerId);
 }
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { PRESET_VERSION, PresetError, createPreset, fitPresetToDocument, parsePreset } from './preset';
+import type { CropPreset } from './preset';
+import type { PDFBBox } from './pdf-viewer';
+
+const LETTER: PDFBBox = { left: 0, bottom: 0, right: 612, top: 792 };
+const A4: PDFBBox = { left: 0, bottom: 0, right: 595.28, top: 841.89 };
+
+function createTestPreset(): CropPreset {
+    return createPreset(
+        'paper.pdf',
+        3,
+        { margins: { left: 5, top: 10, right: 5, bottom: 10 }, shrinkToContent: true, clipContent: false },
+        { mode: 'custom', text: '1-2' },
+        'parity',
+        'a4',
+        '3:4',
+        new Map([[2, { left: 72, bottom: 72, right: 540, top: 720 }], [0, { left: 50, bottom: 60, right: 500, top: 700 }]]),
+        new Map([[0, LETTER], [2, { left: 10, bottom: 20, right: 622, top: 812 }]])
+    );
+}
+
+/**
+ * Serialize a preset the way it is exported, with changes to its contents
+ */
+function presetText(changes: Record<string, unknown> = {}): string {
+    return JSON.stringify({ ...createTestPreset(), ...changes }, null, 2);
+}
+
+describe('parsePreset', () => {
+    it('reads back an exported preset', () => {
+        const preset = createTestPreset();
+        expect(parsePreset(JSON.stringify(preset, null, 2))).toEqual(preset);
+    });
+
+    it('stores bboxes by 1-indexed page, in page order', () => {
+        expect(createTestPreset().bboxes.map(entry => entry.page)).toEqual([1, 3]);
+    });
+
+    it('fills in settings missing from older presets', () => {
+        const preset = parsePreset(presetText({ paperSize: undefined, aspectRatio: undefined, pageRange: undefined }));
+        expect(preset.paperSize).toBe('off');
+        expect(preset.aspectRatio).toBe('free');
+        expect(preset.pageRange).toEqual({ mode: 'all', text: '' });
+    });
+
+    it('accepts a page size instead of a page box', () => {
+        const preset = createTestPreset();
+        const entry = { page: 1, left: 10, bottom: 10, right: 100, top: 100, pageSize: { width: 612, height: 792 } };
+        const parsed = parsePreset(JSON.stringify({ ...preset, bboxes: [entry] }));
+        expect(parsed.bboxes).toEqual([{ page: 1, left: 10, bottom: 10, right: 100, top: 100, pageBox: LETTER }]);
+    });
+
+    it.each([
+        { name: 'not JSON', text: '{ "format": ', error: 'The file is not valid JSON.' },
+        { name: 'another JSON file', text: '{ "name": "package" }', error: 'The file is not a pdfcrop preset.' },
+        { name: 'a JSON array', text: '[]', error: 'The file is not a pdfcrop preset.' },
+        { name: 'a newer version', text: presetText({ version: PRESET_VERSION + 1 }), error: `Unsupported preset version ${PRESET_VERSION + 1}. Please update the app.` },
+        { name: 'version 0', text: presetText({ version: 0 }), error: 'The preset has an invalid version (0).' },
+        { name: 'a negative version', text: presetText({ version: -1 }), error: 'The preset has an invalid version (-1).' },
+        { name: 'a fractional version', text: presetText({ version: 0.5 }), error: 'The preset has an invalid version (0.5).' },
+        { name: 'a version string', text: presetText({ version: '1' }), error: 'The preset has an invalid version (1).' },
+        { name: 'no version', text: presetText({ version: undefined }), error: 'The preset has an invalid version (undefined).' },
+        { name: 'no settings', text: presetText({ settings: undefined }), error: 'The preset has no crop settings.' },
+        { name: 'invalid margins', text: presetText({ settings: { margins: { left: 'a', top: 0, right: 0, bottom: 0 } } }), error: 'The preset has invalid margins.' },
+        { name: 'no bboxes list', text: presetText({ bboxes: {} }), error: 'The preset has no crop boxes list.' },
+        { name: 'an empty bbox', text: presetText({ bboxes: [{ page: 1, left: 10, bottom: 10, right: 10, top: 20, pageBox: LETTER }] }), error: 'Crop box #1 in the preset is invalid.' },
+        { name: 'a bbox on page 0', text: presetText({ bboxes: [{ page: 0, left: 0, bottom: 0, right: 10, top: 10, pageBox: LETTER }] }), error: 'Crop box #1 in the preset is invalid.' },
+        { name: 'a bbox without page box', text: presetText({ bboxes: [{ page: 1, left: 0, bottom: 0, right: 10, top: 10 }] }), error: 'Crop box #1 in the preset is invalid.' }
+    ])('rejects $name', ({ text, error }) => {
+        expect(() => parsePreset(text)).toThrow(PresetError);
+        expect(() => parsePreset(text)).toThrow(error);
+    });
+});
+
+describe('fitPresetToDocument', () => {
+    it('keeps boxes for pages with the same page box', () => {
+        const fitted = fitPresetToDocument(createTestPreset(), 3, new Map([[0, LETTER], [2, { left: 10, bottom: 20, right: 622, top: 812 }]]));
+        expect(fitted.bboxes).toEqual(new Map([
+            [0, { left: 50, bottom: 60, right: 500, top: 700 }],
+            [2, { left: 72, bottom: 72, right: 540, top: 720 }]
+        ]));
+        expect(fitted.warnings).toEqual([]);
+    });
+
+    it('scales boxes drawn on a different page size', () => {
+        const preset = parsePreset(presetText({ bboxes: [{ page: 1, left: 61.2, bottom: 79.2, right: 550.8, top: 712.8, pageBox: LETTER }] }));
+        const fitted = fitPresetToDocument(preset, 3, new Map([[0, A4]]));
+
+        const bbox = fitted.bboxes.get(0)!;
+        expect(bbox.left).toBeCloseTo(59.528);
+        expect(bbox.bottom).toBeCloseTo(84.189);
+        expect(bbox.right).toBeCloseTo(535.752);
+        expect(bbox.top).toBeCloseTo(757.701);
+        expect(fitted.warnings).toEqual(['Scaled crop boxes to a different page size on pages: 1.']);
+    });
+
+    it('drops boxes for missing pages and trims boxes past the page', () => {
+        const preset = parsePreset(presetText({
+            bboxes: [
+                { page: 1, left: -20, bottom: 0, right: 300, top: 900, pageBox: LETTER },
+                { page: 5, left: 0, bottom: 0, right: 100, top: 100, pageBox: LETTER }
+            ]
+        }));
+        const fitted = fitPresetToDocument(preset, 2, new Map([[0, LETTER], [1, LETTER]]));
+
+        expect(fitted.bboxes).toEqual(new Map([[0, { left: 0, bottom: 0, right: 300, top: 792 }]]));
+        expect(fitted.warnings).toEqual([
+            'The preset was made for a 3-page document; this one has 2 pages.',
+            'Skipped crop boxes that don\'t fit this document on pages: 5.',
+            'Trimmed crop boxes extending past the page on pages: 1.'
+        ]);
+    });
+});
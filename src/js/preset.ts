@@ -0,0 +1,305 @@
+/**
+ * Crop Presets
+ *
+ * Serializes crop settings, page range and per-page bboxes to a versioned
+ * JSON file, and validates an imported preset against the open document.
+ * Bboxes are stored in PDF points with 1-indexed page numbers, together with
+ * the page box (CropBox or MediaBox) of the page they were drawn on.
+ */
+
+import type { PDFBBox } from './pdf-viewer';
+import type { CropSettings } from './worker-protocol';
+import { getPaperSize, parseAspectRatio, scaleBboxToPage } from './utils';
+import type { UniformSizeMode } from './utils';
+
+export const PRESET_FORMAT = 'pdfcrop-preset';
+export const PRESET_VERSION = 1;
+
+// Page box difference (pt) still treated as the same box
+const BOX_TOLERANCE = 1;
+
+// Page range selection as shown in the Page Range panel
+export interface PresetPageRange {
+    mode: 'all' | 'current' | 'odd' | 'even' | 'custom';
+    text: string;
+}
+
+// A stored bbox with the page box of the page it was drawn on
+export interface PresetBbox extends PDFBBox {
+    page: number;  // 1-indexed
+    pageBox: PDFBBox;
+}
+
+// Preset file contents (version 1)
+export interface CropPreset {
+    format: typeof PRESET_FORMAT;
+    version: number;
+    source: {
+        filename: string;
+        pageCount: number;
+    };
+    settings: CropSettings;
+    pageRange: PresetPageRange;
+    uniformSizeMode: UniformSizeMode;
+    paperSize: string;    // Paper size name, or 'off'
+    aspectRatio: string;  // 'W:H' or paper size name, or 'free'
+    bboxes: PresetBbox[];
+}
+
+// Bboxes of a preset fitted to a document
+export interface FittedPreset {
+    bboxes: Map<number, PDFBBox>;  // 0-indexed page → bbox
+    warnings: string[];
+}
+
+/**
+ * Error thrown for preset files that cannot be read
+ */
+export class PresetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PresetError';
+    }
+}
+
+/**
+ * Build a preset from the current editor state
+ * @param pageBoxes - Page box of each page with a bbox (0-indexed)
+ */
+export function createPreset(
+    filename: string,
+    pageCount: number,
+    settings: CropSettings,
+    pageRange: PresetPageRange,
+    uniformSizeMode: UniformSizeMode,
+    paperSize: string,
+    aspectRatio: string,
+    bboxes: Map<number, PDFBBox>,
+    pageBoxes: Map<number, PDFBBox>
+): CropPreset {
+    const entries: PresetBbox[] = [];
+    Array.from(bboxes.keys()).sort((a, b) => a - b).forEach(pageIndex => {
+        const bbox = bboxes.get(pageIndex);
+        const pageBox = pageBoxes.get(pageIndex);
+        if (!bbox || !pageBox) return;
+
+        entries.push({
+            page: pageIndex + 1,
+            left: bbox.left,
+            bottom: bbox.bottom,
+            right: bbox.right,
+            top: bbox.top,
+            pageBox: { ...pageBox }
+        });
+    });
+
+    return {
+        format: PRESET_FORMAT,
+        version: PRESET_VERSION,
+        source: { filename, pageCount },
+        settings,
+        pageRange,
+        uniformSizeMode,
+        paperSize,
+        aspectRatio,
+        bboxes: entries
+    };
+}
+
+/**
+ * Check for a finite number
+ */
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a valid, non-empty bbox
+ */
+function readBbox(value: unknown): PDFBBox | null {
+    if (!isObject(value) ||
+        !isFiniteNumber(value.left) || !isFiniteNumber(value.bottom) ||
+        !isFiniteNumber(value.right) || !isFiniteNumber(value.top) ||
+        value.right <= value.left || value.top <= value.bottom) {
+        return null;
+    }
+    return { left: value.left, bottom: value.bottom, right: value.right, top: value.top };
+}
+
+/**
+ * Read the page box of a preset bbox
+ * Also accepts a plain page size, as a box starting at (0, 0).
+ */
+function readPageBox(entry: Record<string, unknown>): PDFBBox | null {
+    if (entry.pageBox !== undefined) {
+        return readBbox(entry.pageBox);
+    }
+
+    const size = entry.pageSize;
+    if (!isObject(size)) return null;
+    return readBbox({ left: 0, bottom: 0, right: size.width, top: size.height });
+}
+
+/**
+ * Parse and validate the contents of a preset file
+ * @throws PresetError if the file is not a valid preset
+ */
+export function parsePreset(text: string): CropPreset {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new PresetError('The file is not valid JSON.');
+    }
+
+    if (!isObject(data) || data.format !== PRESET_FORMAT) {
+        throw new PresetError('The file is not a pdfcrop preset.');
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        throw new PresetError(`The preset has an invalid version (${String(data.version)}).`);
+    }
+    if (data.version > PRESET_VERSION) {
+        throw new PresetError(`Unsupported preset version ${data.version}. Please update the app.`);
+    }
+
+    // Settings
+    const settings = data.settings;
+    if (!isObject(settings) || !isObject(settings.margins)) {
+        throw new PresetError('The preset has no crop settings.');
+    }
+    const margins = settings.margins;
+    if (!isFiniteNumber(margins.left) || !isFiniteNumber(margins.top) ||
+        !isFiniteNumber(margins.right) || !isFiniteNumber(margins.bottom)) {
+        throw new PresetError('The preset has invalid margins.');
+    }
+
+    // Page range
+    const pageRange = isObject(data.pageRange) ? data.pageRange : {};
+    const modes: PresetPageRange['mode'][] = ['all', 'current', 'odd', 'even', 'custom'];
+    const mode = modes.find(m => m === pageRange.mode) ?? 'all';
+
+    const uniformSizeMode: UniformSizeMode =
+        data.uniformSizeMode === 'union' || data.uniformSizeMode === 'parity' ? data.uniformSizeMode : 'off';
+
+    // Missing in presets saved by older versions
+    const paperSize = typeof data.paperSize === 'string' && getPaperSize(data.paperSize) ? data.paperSize : 'off';
+    const aspectRatio = typeof data.aspectRatio === 'string' && parseAspectRatio(data.aspectRatio) ? data.aspectRatio : 'free';
+
+    // Bboxes
+    if (!Array.isArray(data.bboxes)) {
+        throw new PresetError('The preset has no crop boxes list.');
+    }
+    const bboxes: PresetBbox[] = data.bboxes.map((entry: unknown, index: number) => {
+        const bbox = readBbox(entry);
+        const pageBox = isObject(entry) ? readPageBox(entry) : null;
+        const page = isObject(entry) ? entry.page : null;
+        if (!bbox || !pageBox || typeof page !== 'number' || !Number.isInteger(page) || page < 1) {
+            throw new PresetError(`Crop box #${index + 1} in the preset is invalid.`);
+        }
+        return { page, ...bbox, pageBox };
+    });
+
+    const source = isObject(data.source) ? data.source : {};
+
+    return {
+        format: PRESET_FORMAT,
+        version: data.version,
+        source: {
+            filename: typeof source.filename === 'string' ? source.filename : '',
+            pageCount: isFiniteNumber(source.pageCount) ? source.pageCount : 0
+        },
+        settings: {
+            margins: {
+                left: margins.left,
+                top: margins.top,
+                right: margins.right,
+                bottom: margins.bottom
+            },
+            shrinkToContent: settings.shrinkToContent === true,
+            clipContent: settings.clipContent === true
+        },
+        pageRange: {
+            mode,
+            text: typeof pageRange.text === 'string' ? pageRange.text : ''
+        },
+        uniformSizeMode,
+        paperSize,
+        aspectRatio,
+        bboxes
+    };
+}
+
+/**
+ * Fit the bboxes of a preset to a document
+ * Boxes for pages the document doesn't have are dropped. Boxes drawn on a
+ * page with a different page box are scaled proportionally, and boxes
+ * extending past the page are clamped to it.
+ * @param pageBoxes - Page box of each page of the document (0-indexed)
+ */
+export function fitPresetToDocument(preset: CropPreset, pageCount: number, pageBoxes: Map<number, PDFBBox>): FittedPreset {
+    const bboxes = new Map<number, PDFBBox>();
+    const warnings: string[] = [];
+    const missingPages: number[] = [];
+    const scaledPages: number[] = [];
+    const clampedPages: number[] = [];
+
+    if (preset.source.pageCount > 0 && preset.source.pageCount !== pageCount) {
+        warnings.push(`The preset was made for a ${preset.source.pageCount}-page document; this one has ${pageCount} pages.`);
+    }
+
+    preset.bboxes.forEach(entry => {
+        const pageIndex = entry.page - 1;
+        const pageBox = pageBoxes.get(pageIndex);
+        if (pageIndex >= pageCount || !pageBox) {
+            missingPages.push(entry.page);
+            return;
+        }
+
+        let bbox: PDFBBox = { left: entry.left, bottom: entry.bottom, right: entry.right, top: entry.top };
+
+        const sameBox = Math.abs(entry.pageBox.left - pageBox.left) <= BOX_TOLERANCE &&
+            Math.abs(entry.pageBox.bottom - pageBox.bottom) <= BOX_TOLERANCE &&
+            Math.abs(entry.pageBox.right - pageBox.right) <= BOX_TOLERANCE &&
+            Math.abs(entry.pageBox.top - pageBox.top) <= BOX_TOLERANCE;
+        if (!sameBox) {
+            bbox = scaleBboxToPage(bbox, entry.pageBox, pageBox);
+            scaledPages.push(entry.page);
+        }
+
+        const clamped: PDFBBox = {
+            left: Math.max(pageBox.left, bbox.left),
+            bottom: Math.max(pageBox.bottom, bbox.bottom),
+            right: Math.min(pageBox.right, bbox.right),
+            top: Math.min(pageBox.top, bbox.top)
+        };
+        if (clamped.right <= clamped.left || clamped.top <= clamped.bottom) {
+            missingPages.push(entry.page);
+            return;
+        }
+        if (clamped.left !== bbox.left || clamped.bottom !== bbox.bottom ||
+            clamped.right !== bbox.right || clamped.top !== bbox.top) {
+            clampedPages.push(entry.page);
+        }
+
+        bboxes.set(pageIndex, clamped);
+    });
+
+    if (missingPages.length > 0) {
+        warnings.push(`Skipped crop boxes that don't fit this document on pages: ${missingPages.join(', ')}.`);
+    }
+    if (scaledPages.length > 0) {
+        warnings.push(`Scaled crop boxes to a different page size on pages: ${scaledPages.join(', ')}.`);
+    }
+    if (clampedPages.length > 0) {
+        warnings.push(`Trimmed crop boxes extending past the page on pages: ${clampedPages.join(', ')}.`);
+    }
+
+    return { bboxes, warnings };
+}
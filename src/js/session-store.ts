@@ -0,0 +1,191 @@
+/**
+ * Session Persistence
+ *
+ * Saves opened documents and their crop state to IndexedDB so work survives
+ * a reload. Data stays in this browser; nothing is uploaded. Document bytes
+ * and session metadata live in separate object stores so frequent state
+ * updates don't rewrite the (possibly large) PDF.
+ */
+
+const DB_NAME = 'pdfcrop';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';  // id → { id, data }
+const SESSIONS_STORE = 'sessions';    // id → SessionRecord
+
+// Saved session metadata and editor state
+export interface SessionRecord<T = unknown> {
+    id: string;
+    filename: string;
+    pageCount: number;
+    size: number;
+    updatedAt: number;
+    state: T | null;
+}
+
+interface DocumentRecord {
+    id: string;
+    data: Uint8Array;
+}
+
+// Session store options
+interface SessionStoreOptions {
+    maxSessions?: number;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export class SessionStore<T = unknown> {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private maxSessions: number;
+
+    constructor(options: SessionStoreOptions = {}) {
+        this.maxSessions = options.maxSessions || 5;
+    }
+
+    /**
+     * Check whether IndexedDB is available (e.g. not in some private modes)
+     */
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    /**
+     * Save a document and start (or replace) its session
+     * Older sessions beyond the limit are removed.
+     */
+    async saveDocument(record: SessionRecord<T>, data: Uint8Array): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([DOCUMENTS_STORE, SESSIONS_STORE], 'readwrite');
+        const documentRecord: DocumentRecord = { id: record.id, data };
+        transaction.objectStore(DOCUMENTS_STORE).put(documentRecord);
+        transaction.objectStore(SESSIONS_STORE).put(record);
+        await transactionDone(transaction);
+
+        await this.prune();
+    }
+
+    /**
+     * Update the editor state of an existing session
+     */
+    async saveState(id: string, state: T): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+        const store = transaction.objectStore(SESSIONS_STORE);
+        const record = await promisifyRequest(store.get(id)) as SessionRecord<T> | undefined;
+        if (record) {
+            store.put({ ...record, state, updatedAt: Date.now() });
+        }
+        await transactionDone(transaction);
+    }
+
+    /**
+     * List saved sessions, most recent first
+     */
+    async listSessions(): Promise<SessionRecord<T>[]> {
+        const db = await this.open();
+        const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+        const records = await promisifyRequest(transaction.objectStore(SESSIONS_STORE).getAll()) as SessionRecord<T>[];
+        return records.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Load a saved document and its session
+     */
+    async loadSession(id: string): Promise<{ record: SessionRecord<T>; data: Uint8Array } | null> {
+        const db = await this.open();
+        const transaction = db.transaction([DOCUMENTS_STORE, SESSIONS_STORE], 'readonly');
+        const [record, documentRecord] = await Promise.all([
+            promisifyRequest(transaction.objectStore(SESSIONS_STORE).get(id)) as Promise<SessionRecord<T> | undefined>,
+            promisifyRequest(transaction.objectStore(DOCUMENTS_STORE).get(id)) as Promise<DocumentRecord | undefined>
+        ]);
+
+        if (!record || !documentRecord) return null;
+        return { record, data: documentRecord.data };
+    }
+
+    /**
+     * Delete a saved document and its session
+     */
+    async forget(id: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([DOCUMENTS_STORE, SESSIONS_STORE], 'readwrite');
+        transaction.objectStore(DOCUMENTS_STORE).delete(id);
+        transaction.objectStore(SESSIONS_STORE).delete(id);
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Delete all saved documents and sessions
+     */
+    async forgetAll(): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([DOCUMENTS_STORE, SESSIONS_STORE], 'readwrite');
+        transaction.objectStore(DOCUMENTS_STORE).clear();
+        transaction.objectStore(SESSIONS_STORE).clear();
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Remove the oldest sessions beyond the limit
+     */
+    private async prune(): Promise<void> {
+        const sessions = await this.listSessions();
+        for (const session of sessions.slice(this.maxSessions)) {
+            await this.forget(session.id);
+        }
+    }
+
+    /**
+     * Open (and create or upgrade) the database once
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+                        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+
+            // Allow retrying if opening failed
+            this.dbPromise.catch(() => {
+                this.dbPromise = null;
+            });
+        }
+        return this.dbPromise;
+    }
+}
+
+/**
+ * Create and export a session store instance
+ */
+export function createSessionStore<T = unknown>(options: SessionStoreOptions = {}): SessionStore<T> {
+    return new SessionStore<T>(options);
+}
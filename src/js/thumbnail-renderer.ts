@@ -0,0 +1,236 @@
+/**
+ * Lazy Thumbnail Rendering
+ *
+ * Renders sidebar thumbnails only when they scroll near the visible area, one
+ * page at a time, and caches the results as ImageBitmaps so scrolling back is
+ * instant. Canvases that leave the area are emptied, so a long document keeps
+ * only a handful of full-size canvases. reset() drops all pending work and
+ * cancels the render in progress when a new document is loaded.
+ */
+
+// Thumbnail renderer options
+interface ThumbnailRendererOptions {
+    root?: HTMLElement | null;  // Scroll container of the thumbnails (null = viewport)
+    rootMargin?: string;        // Render this far ahead of the visible area
+    maxCached?: number;         // Bitmaps kept for pages out of view
+    renderPage: (pageNum: number, canvas: HTMLCanvasElement, signal: AbortSignal) => Promise<void>;
+    onRendered?: ((pageNum: number) => void) | null;
+}
+
+// Cached thumbnail with the CSS size it was rendered for
+interface CachedThumbnail {
+    bitmap: ImageBitmap;
+    cssWidth: string;
+    cssHeight: string;
+}
+
+export class ThumbnailRenderer {
+    private observer: IntersectionObserver;
+    private maxCached: number;
+    private renderPage: (pageNum: number, canvas: HTMLCanvasElement, signal: AbortSignal) => Promise<void>;
+
+    private canvases: Map<number, HTMLCanvasElement> = new Map();  // 1-indexed page → canvas
+    private visible: Set<number> = new Set();
+    private cache: Map<number, CachedThumbnail> = new Map();  // In least recently used order
+    private queue: number[] = [];
+    private rendering: boolean = false;
+    private generation: number = 0;  // Incremented by reset() to drop in-flight work
+    private abortController: AbortController = new AbortController();  // Aborted by reset() to cancel the render in progress
+
+    // Callbacks
+    private onRendered: ((pageNum: number) => void) | null;
+
+    constructor(options: ThumbnailRendererOptions) {
+        this.maxCached = options.maxCached || 200;
+        this.renderPage = options.renderPage;
+        this.onRendered = options.onRendered || null;
+
+        this.observer = new IntersectionObserver(entries => this.handleIntersection(entries), {
+            root: options.root || null,
+            rootMargin: options.rootMargin || '400px 0px'
+        });
+    }
+
+    /**
+     * Start rendering a page's thumbnail into a canvas once it comes into view
+     * @param pageNum - Page number (1-indexed)
+     */
+    observe(pageNum: number, canvas: HTMLCanvasElement): void {
+        canvas.dataset.page = pageNum.toString();
+        this.canvases.set(pageNum, canvas);
+        this.observer.observe(canvas);
+    }
+
+    /**
+     * Drop a page's cached thumbnail (e.g. after rotating it) and re-render it if visible
+     * @param pageNum - Page number (1-indexed)
+     */
+    invalidate(pageNum: number): void {
+        this.evict(pageNum);
+        if (this.visible.has(pageNum)) {
+            this.enqueue(pageNum);
+        }
+    }
+
+    /**
+     * Drop all cached thumbnails (e.g. after a DPI change) and re-render the visible ones
+     */
+    invalidateAll(): void {
+        Array.from(this.cache.keys()).forEach(pageNum => this.evict(pageNum));
+        Array.from(this.visible).sort((a, b) => a - b).forEach(pageNum => this.enqueue(pageNum));
+    }
+
+    /**
+     * Forget all thumbnails and cancel pending renders
+     */
+    reset(): void {
+        this.generation++;
+        this.abortController.abort();
+        this.abortController = new AbortController();
+        this.observer.disconnect();
+        Array.from(this.cache.keys()).forEach(pageNum => this.evict(pageNum));
+        this.canvases.clear();
+        this.visible.clear();
+        this.queue = [];
+    }
+
+    /**
+     * Track thumbnails entering and leaving the render area
+     */
+    private handleIntersection(entries: IntersectionObserverEntry[]): void {
+        entries.forEach(entry => {
+            const canvas = entry.target as HTMLCanvasElement;
+            const pageNum = parseInt(canvas.dataset.page || '0', 10);
+            if (this.canvases.get(pageNum) !== canvas) return;
+
+            if (entry.isIntersecting) {
+                this.visible.add(pageNum);
+                if (!this.drawCached(pageNum, canvas)) {
+                    this.enqueue(pageNum);
+                }
+            } else {
+                this.visible.delete(pageNum);
+                this.queue = this.queue.filter(page => page !== pageNum);
+                this.release(canvas);
+            }
+        });
+    }
+
+    /**
+     * Queue a page for rendering and start the render loop
+     */
+    private enqueue(pageNum: number): void {
+        if (!this.queue.includes(pageNum)) {
+            this.queue.push(pageNum);
+        }
+        if (!this.rendering) {
+            this.processQueue().catch(err => console.error('Error rendering thumbnails:', err));
+        }
+    }
+
+    /**
+     * Render queued pages one at a time until the queue is empty or reset() is called
+     */
+    private async processQueue(): Promise<void> {
+        this.rendering = true;
+        const generation = this.generation;
+        const signal = this.abortController.signal;
+
+        try {
+            while (this.queue.length > 0 && generation === this.generation) {
+                const pageNum = this.queue.shift() as number;
+                const canvas = this.canvases.get(pageNum);
+                if (!canvas || !this.visible.has(pageNum)) continue;
+
+                try {
+                    await this.renderPage(pageNum, canvas, signal);
+                    if (generation !== this.generation) break;
+
+                    this.store(pageNum, {
+                        bitmap: await createImageBitmap(canvas),
+                        cssWidth: canvas.style.width,
+                        cssHeight: canvas.style.height
+                    });
+                    if (generation !== this.generation) break;
+
+                    // Scrolled away while rendering
+                    if (!this.visible.has(pageNum)) {
+                        this.release(canvas);
+                    }
+                    if (this.onRendered) {
+                        this.onRendered(pageNum);
+                    }
+                } catch (error) {
+                    console.error(`Error rendering thumbnail for page ${pageNum}:`, error);
+                }
+            }
+        } finally {
+            this.rendering = false;
+        }
+
+        // reset() may have queued new pages while the last render was finishing
+        if (this.queue.length > 0) {
+            this.processQueue().catch(err => console.error('Error rendering thumbnails:', err));
+        }
+    }
+
+    /**
+     * Draw a cached thumbnail into its canvas
+     * @returns false if the page has no cached thumbnail
+     */
+    private drawCached(pageNum: number, canvas: HTMLCanvasElement): boolean {
+        const cached = this.cache.get(pageNum);
+        if (!cached) return false;
+
+        // Mark as most recently used
+        this.cache.delete(pageNum);
+        this.cache.set(pageNum, cached);
+
+        canvas.width = cached.bitmap.width;
+        canvas.height = cached.bitmap.height;
+        canvas.style.width = cached.cssWidth;
+        canvas.style.height = cached.cssHeight;
+        canvas.getContext('2d')?.drawImage(cached.bitmap, 0, 0);
+        return true;
+    }
+
+    /**
+     * Cache a rendered thumbnail, evicting the least recently used beyond the limit
+     */
+    private store(pageNum: number, thumbnail: CachedThumbnail): void {
+        this.evict(pageNum);
+        this.cache.set(pageNum, thumbnail);
+
+        while (this.cache.size > this.maxCached) {
+            const oldest = this.cache.keys().next().value as number;
+            this.evict(oldest);
+        }
+    }
+
+    /**
+     * Remove a page from the cache and free its bitmap
+     */
+    private evict(pageNum: number): void {
+        const cached = this.cache.get(pageNum);
+        if (cached) {
+            cached.bitmap.close();
+            this.cache.delete(pageNum);
+        }
+    }
+
+    /**
+     * Free a canvas' pixels while keeping its CSS size, so the layout doesn't jump
+     */
+    private release(canvas: HTMLCanvasElement): void {
+        if (!canvas.style.height || canvas.style.height === 'auto') return;
+        canvas.width = 0;
+        canvas.height = 0;
+    }
+}
+
+/**
+ * Create and export a thumbnail renderer instance
+ */
+export function createThumbnailRenderer(options: ThumbnailRendererOptions): ThumbnailRenderer {
+    return new ThumbnailRenderer(options);
+}
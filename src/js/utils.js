@@ -1,14 +0,0 @@
-/**
- * Utility Functions
- *
- * This module will provide:
- * - Coordinate conversion helpers (canvas ↔ PDF points)
- * - PDF.js viewport utilities
- * - File size formatting
- * - Page range parsing helpers
- * - Validation functions
- *
- * TO BE IMPLEMENTED IN PHASE 3-4
- */
-
-// TODO: Implement utility functions for coordinate conversion and helpers
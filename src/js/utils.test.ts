@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { formatPageRange, getOutputPages, parsePageRange } from './utils';
+
+describe('getOutputPages', () => {
+    it.each([
+        { name: 'nothing changed', order: [0, 1, 2, 3], excluded: [], expected: null },
+        { name: 'excluded pages', order: [0, 1, 2, 3], excluded: [1, 3], expected: [0, 2] },
+        { name: 'reordered pages', order: [2, 0, 1, 3], excluded: [], expected: [2, 0, 1, 3] },
+        { name: 'reordered and excluded pages', order: [3, 2, 1, 0], excluded: [2], expected: [3, 1, 0] },
+        { name: 'every page excluded', order: [0, 1], excluded: [0, 1], expected: [] }
+    ])('$name', ({ order, excluded, expected }) => {
+        expect(getOutputPages(order, new Set(excluded))).toEqual(expected);
+    });
+});
+
+describe('parsePageRange', () => {
+    // 0-indexed pages of a 10-page document
+    it.each([
+        { text: '8', pages: [7] },
+        { text: '1-5, 8', pages: [0, 1, 2, 3, 4, 7] },
+        { text: '1 - 3 9', pages: [0, 1, 2, 8] },
+        { text: '3-', pages: [2, 3, 4, 5, 6, 7, 8, 9] },
+        { text: '-5', pages: [0, 1, 2, 3, 4] },
+        { text: 'last', pages: [9] },
+        { text: '8-last', pages: [7, 8, 9] },
+        { text: 'odd', pages: [0, 2, 4, 6, 8] },
+        { text: 'EVEN', pages: [1, 3, 5, 7, 9] },
+        { text: '1-10,^4', pages: [0, 1, 2, 4, 5, 6, 7, 8, 9] },
+        { text: 'odd, ^ 1-5', pages: [6, 8] },
+        { text: '^2-9', pages: [0, 9] },
+        { text: '5, 3-6, 5', pages: [2, 3, 4, 5] }
+    ])('"$text"', ({ text, pages }) => {
+        expect(parsePageRange(text, 10)).toEqual({ pages, error: null });
+    });
+
+    it.each([
+        { text: '', error: 'Enter the pages to use, e.g. 1-5, 8.' },
+        { text: ' , ', error: 'Enter the pages to use, e.g. 1-5, 8.' },
+        { text: '5-3', error: '"5-3" is reversed - did you mean 3-5?' },
+        { text: '0', error: 'Page numbers start at 1.' },
+        { text: '0-3', error: 'Page numbers start at 1.' },
+        { text: '11', error: 'Page 11 is past the last page (10).' },
+        { text: '8-12', error: 'Page 12 is past the last page (10).' },
+        { text: 'abc', error: '"abc" is not a page number.' },
+        { text: '1.5', error: '"1.5" is not a page number.' },
+        { text: '1-2-3', error: '"1-2-3" is not a page number or range.' },
+        { text: '-', error: '"-" is not a page number or range.' },
+        { text: '^1-10', error: 'The range selects no pages.' }
+    ])('rejects "$text"', ({ text, error }) => {
+        expect(parsePageRange(text, 10)).toEqual({ pages: [], error });
+    });
+});
+
+describe('formatPageRange', () => {
+    it.each([
+        { pages: [], text: '' },
+        { pages: [0, 1, 2, 6], text: '1-3, 7' },
+        { pages: [9, 4, 3, 4], text: '4-5, 10' }
+    ])('$text', ({ pages, text }) => {
+        expect(formatPageRange(pages)).toBe(text);
+    });
+
+    it('formats text that parses back to the same pages', () => {
+        const pages = [0, 2, 3, 4, 8];
+        expect(parsePageRange(formatPageRange(pages), 10).pages).toEqual(pages);
+    });
+});
@@ -0,0 +1,419 @@
+/**
+ * Utility Functions
+ *
+ * Pure helpers shared across the app:
+ * - Page selection helpers (odd/even pages, page range parsing, output pages)
+ * - Bbox conversion between pages of different sizes
+ * - Bbox statistics (outlier detection, union for uniform page size)
+ * - Paper sizes for aspect lock and fit-into-paper cropping
+ * - Length units for displaying and editing bboxes
+ */
+
+import type { PDFBBox } from './pdf-viewer';
+
+// Page size in PDF points
+export interface PageSize {
+    width: number;
+    height: number;
+}
+
+// Page subsets that can be selected by parity
+export type PageParity = 'odd' | 'even';
+
+// Uniform output size: off, one union box for all pages, or one per parity
+export type UniformSizeMode = 'off' | 'union' | 'parity';
+
+// Standard paper sizes in PDF points, portrait unless the name says otherwise
+const PAPER_SIZES: Record<string, PageSize> = {
+    a3: { width: 841.89, height: 1190.55 },
+    a4: { width: 595.28, height: 841.89 },
+    a5: { width: 419.53, height: 595.28 },
+    letter: { width: 612, height: 792 },
+    legal: { width: 612, height: 1008 },
+    'slide-16-9': { width: 720, height: 405 },
+    'slide-4-3': { width: 720, height: 540 }
+};
+
+// Length units for bbox editing
+export type LengthUnit = 'pt' | 'mm' | 'cm' | 'in';
+
+// PDF points per unit (1 in = 72 pt = 25.4 mm)
+const POINTS_PER_UNIT: Record<LengthUnit, number> = {
+    pt: 1,
+    mm: 72 / 25.4,
+    cm: 72 / 2.54,
+    in: 72
+};
+
+// Decimals shown per unit (about 0.01 pt resolution or better)
+const UNIT_DECIMALS: Record<LengthUnit, number> = {
+    pt: 2,
+    mm: 2,
+    cm: 3,
+    in: 4
+};
+
+/**
+ * Get odd or even pages as 0-indexed page numbers
+ * Parity refers to 1-indexed page numbers, so odd pages are 0, 2, 4, ...
+ */
+export function getParityPages(totalPages: number, parity: PageParity): number[] {
+    const pages: number[] = [];
+    const first = parity === 'odd' ? 0 : 1;
+    for (let i = first; i < totalPages; i += 2) {
+        pages.push(i);
+    }
+    return pages;
+}
+
+// Result of parsing a page range; pages is empty if there is an error
+export interface PageRangeResult {
+    pages: number[];       // 0-indexed, sorted
+    error: string | null;  // First problem found, for showing next to the input
+}
+
+/**
+ * Parse a page range like "1-5, 8, 10-" into 0-indexed page numbers
+ * Terms are separated by commas or spaces:
+ * - "8", "1-5": single pages and ranges (1-indexed)
+ * - "10-", "-3": open-ended ranges up to the last page or from the first
+ * - "last", "5-last": the last page, also usable as a range end
+ * - "odd", "even": every odd or even page
+ * - "^7", "^10-12": exclude pages (from all pages if nothing else is selected)
+ */
+export function parsePageRange(text: string, totalPages: number): PageRangeResult {
+    // Allow spaces around dashes and after carets
+    const terms = text.trim()
+        .replace(/\s*-\s*/g, '-')
+        .replace(/\^\s+/g, '^')
+        .split(/[\s,]+/)
+        .filter(term => term.length > 0);
+
+    if (terms.length === 0) {
+        return { pages: [], error: 'Enter the pages to use, e.g. 1-5, 8.' };
+    }
+
+    const included = new Set<number>();
+    const excluded = new Set<number>();
+    let hasInclusions = false;
+
+    const parseEndpoint = (value: string): number | string => {
+        if (value.toLowerCase() === 'last') return totalPages;
+        if (!/^\d+$/.test(value)) return `"${value}" is not a page number.`;
+        const page = parseInt(value, 10);
+        if (page < 1) return 'Page numbers start at 1.';
+        if (page > totalPages) return `Page ${page} is past the last page (${totalPages}).`;
+        return page;
+    };
+
+    for (const term of terms) {
+        const exclude = term.startsWith('^');
+        const body = exclude ? term.slice(1) : term;
+        const target = exclude ? excluded : included;
+        if (!exclude) hasInclusions = true;
+
+        const keyword = body.toLowerCase();
+        if (keyword === 'odd' || keyword === 'even') {
+            getParityPages(totalPages, keyword).forEach(page => target.add(page));
+            continue;
+        }
+
+        const dash = body.indexOf('-');
+        const startText = dash >= 0 ? body.slice(0, dash) : body;
+        const endText = dash >= 0 ? body.slice(dash + 1) : body;
+        if (body === '-' || endText.includes('-')) {
+            return { pages: [], error: `"${term}" is not a page number or range.` };
+        }
+
+        const start = startText === '' ? 1 : parseEndpoint(startText);
+        const end = endText === '' ? totalPages : parseEndpoint(endText);
+        if (typeof start === 'string') return { pages: [], error: start };
+        if (typeof end === 'string') return { pages: [], error: end };
+        if (start > end) {
+            return { pages: [], error: `"${term}" is reversed - did you mean ${end}-${start}?` };
+        }
+
+        for (let page = start; page <= end; page++) {
+            target.add(page - 1);
+        }
+    }
+
+    // Only exclusions: start from all pages
+    if (!hasInclusions) {
+        for (let i = 0; i < totalPages; i++) {
+            included.add(i);
+        }
+    }
+
+    const pages = Array.from(included).filter(page => !excluded.has(page)).sort((a, b) => a - b);
+    if (pages.length === 0) {
+        return { pages: [], error: 'The range selects no pages.' };
+    }
+    return { pages, error: null };
+}
+
+/**
+ * Format 0-indexed pages as a compact 1-indexed page range, e.g. "1-3, 7"
+ */
+export function formatPageRange(pages: number[]): string {
+    const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+    const parts: string[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+        const start = sorted[i];
+        while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+            i++;
+        }
+        parts.push(start === sorted[i] ? `${start + 1}` : `${start + 1}-${sorted[i] + 1}`);
+    }
+
+    return parts.join(', ');
+}
+
+/**
+ * Get the pages to write to the output
+ * @param pageOrder - Every 0-indexed page, in output order
+ * @param excludedPages - Pages left out of the output
+ * @returns Kept pages in output order, or null if every page is kept in its original order
+ */
+export function getOutputPages(pageOrder: number[], excludedPages: ReadonlySet<number>): number[] | null {
+    const pages = pageOrder.filter(page => !excludedPages.has(page));
+    const unchanged = pages.length === pageOrder.length && pages.every((page, index) => page === index);
+    return unchanged ? null : pages;
+}
+
+/**
+ * Map a bbox from one page to another of possibly different size
+ * The box keeps its position relative to the page box, so a box covering the
+ * central 80% of a Letter page covers the central 80% of an A4 page. Page
+ * boxes are in PDF points and may not start at (0, 0).
+ */
+export function scaleBboxToPage(bbox: PDFBBox, from: PDFBBox, to: PDFBBox): PDFBBox {
+    const fromWidth = from.right - from.left;
+    const fromHeight = from.top - from.bottom;
+    const sx = (to.right - to.left) / fromWidth;
+    const sy = (to.top - to.bottom) / fromHeight;
+
+    return {
+        left: to.left + (bbox.left - from.left) * sx,
+        bottom: to.bottom + (bbox.bottom - from.bottom) * sy,
+        right: to.left + (bbox.right - from.left) * sx,
+        top: to.bottom + (bbox.top - from.bottom) * sy
+    };
+}
+
+/**
+ * Median of a list of numbers (0 for an empty list)
+ */
+export function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Find pages whose bbox is much smaller or larger than the median bbox
+ * @param bboxes - Bboxes keyed by 0-indexed page number
+ * @param tolerance - Allowed relative deviation of width or height from the median
+ * @returns 0-indexed page numbers, sorted
+ */
+export function findOutlierPages(bboxes: Map<number, PDFBBox>, tolerance: number = 0.25): number[] {
+    // Too few boxes to say what is typical
+    if (bboxes.size < 3) return [];
+
+    const entries = Array.from(bboxes.entries());
+    const medianWidth = median(entries.map(([, bbox]) => bbox.right - bbox.left));
+    const medianHeight = median(entries.map(([, bbox]) => bbox.top - bbox.bottom));
+    if (medianWidth <= 0 || medianHeight <= 0) return [];
+
+    return entries
+        .filter(([, bbox]) => {
+            const widthDeviation = Math.abs((bbox.right - bbox.left) - medianWidth) / medianWidth;
+            const heightDeviation = Math.abs((bbox.top - bbox.bottom) - medianHeight) / medianHeight;
+            return widthDeviation > tolerance || heightDeviation > tolerance;
+        })
+        .map(([page]) => page)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Smallest bbox containing all given bboxes (null for an empty list)
+ */
+export function unionBbox(bboxes: PDFBBox[]): PDFBBox | null {
+    if (bboxes.length === 0) return null;
+
+    return bboxes.reduce((acc, bbox) => ({
+        left: Math.min(acc.left, bbox.left),
+        bottom: Math.min(acc.bottom, bbox.bottom),
+        right: Math.max(acc.right, bbox.right),
+        top: Math.max(acc.top, bbox.top)
+    }));
+}
+
+/**
+ * Compute the uniform bbox for each page (pdfcrop-style max box)
+ * In 'union' mode every page gets the union of all boxes; in 'parity' mode
+ * odd and even pages each get the union of their own group, so two-sided
+ * layouts with alternating margins keep their offsets.
+ * @param bboxes - Known bboxes keyed by 0-indexed page number
+ * @param pages - 0-indexed pages that should receive a box
+ * @returns Map of page → uniform bbox; pages in a group without any known box are omitted
+ */
+export function computeUniformBboxes(
+    bboxes: Map<number, PDFBBox>,
+    pages: number[],
+    mode: UniformSizeMode
+): Map<number, PDFBBox> {
+    const result = new Map<number, PDFBBox>();
+    if (mode === 'off') {
+        pages.forEach(page => {
+            const bbox = bboxes.get(page);
+            if (bbox) result.set(page, bbox);
+        });
+        return result;
+    }
+
+    // Group 0-indexed pages: even index = odd page number
+    const groupOf = (page: number): number => (mode === 'parity' ? page % 2 : 0);
+    const groups = new Map<number, number[]>();
+    pages.forEach(page => {
+        const group = groups.get(groupOf(page)) ?? [];
+        group.push(page);
+        groups.set(groupOf(page), group);
+    });
+
+    groups.forEach(groupPages => {
+        const known = groupPages
+            .map(page => bboxes.get(page))
+            .filter((bbox): bbox is PDFBBox => bbox !== undefined);
+        const union = unionBbox(known);
+        if (!union) return;
+        groupPages.forEach(page => result.set(page, { ...union }));
+    });
+
+    return result;
+}
+
+/**
+ * Look up a paper size by name, e.g. 'a4' or 'letter-landscape'
+ * @returns Size in PDF points, or null for an unknown name
+ */
+export function getPaperSize(name: string): PageSize | null {
+    const landscape = name.endsWith('-landscape');
+    const size = PAPER_SIZES[landscape ? name.slice(0, -'-landscape'.length) : name];
+    if (!size) return null;
+    return landscape && size.height > size.width
+        ? { width: size.height, height: size.width }
+        : { ...size };
+}
+
+/**
+ * Parse an aspect ratio given as 'W:H' or as a paper size name
+ * @returns width / height, or null for free aspect
+ */
+export function parseAspectRatio(value: string): number | null {
+    const match = value.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    if (match) {
+        const width = parseFloat(match[1]);
+        const height = parseFloat(match[2]);
+        return width > 0 && height > 0 ? width / height : null;
+    }
+
+    const paper = getPaperSize(value);
+    return paper ? paper.width / paper.height : null;
+}
+
+/**
+ * Center a paper-sized box on each page's content box
+ * Instead of shrinking the page to its content, the output page gets the
+ * paper size with the content in the middle. Boxes may extend past the
+ * original page; that area stays blank.
+ * @param bboxes - Content bboxes keyed by 0-indexed page number
+ * @param pages - 0-indexed pages that should receive a box
+ * @param paper - Output paper size as displayed (upright)
+ * @param sidewaysPages - Pages displayed at 90° or 270°, whose PDF width and height are swapped
+ * @param margins - Minimum space around the content, used for the overflow check
+ * @returns Paper boxes and the pages whose content (plus margins) is larger than the paper
+ */
+export function computePaperBboxes(
+    bboxes: Map<number, PDFBBox>,
+    pages: number[],
+    paper: PageSize,
+    sidewaysPages: Set<number> = new Set(),
+    margins: PageSize = { width: 0, height: 0 }
+): { bboxes: Map<number, PDFBBox>; overflowPages: number[] } {
+    const result = new Map<number, PDFBBox>();
+    const overflowPages: number[] = [];
+
+    pages.forEach(page => {
+        const bbox = bboxes.get(page);
+        if (!bbox) return;
+
+        const sideways = sidewaysPages.has(page);
+        const width = sideways ? paper.height : paper.width;
+        const height = sideways ? paper.width : paper.height;
+        const marginX = sideways ? margins.height : margins.width;
+        const marginY = sideways ? margins.width : margins.height;
+
+        if (bbox.right - bbox.left + marginX > width + 0.01 || bbox.top - bbox.bottom + marginY > height + 0.01) {
+            overflowPages.push(page);
+        }
+
+        const centerX = (bbox.left + bbox.right) / 2;
+        const centerY = (bbox.bottom + bbox.top) / 2;
+        result.set(page, {
+            left: centerX - width / 2,
+            bottom: centerY - height / 2,
+            right: centerX + width / 2,
+            top: centerY + height / 2
+        });
+    });
+
+    return { bboxes: result, overflowPages };
+}
+
+/**
+ * Convert PDF points to a length unit
+ */
+export function pointsToUnit(points: number, unit: LengthUnit): number {
+    return points / POINTS_PER_UNIT[unit];
+}
+
+/**
+ * Convert a length in some unit to PDF points
+ */
+export function unitToPoints(value: number, unit: LengthUnit): number {
+    return value * POINTS_PER_UNIT[unit];
+}
+
+/**
+ * Format a length in PDF points for display in a unit (without the unit name)
+ */
+export function formatLength(points: number, unit: LengthUnit): string {
+    return pointsToUnit(points, unit).toFixed(UNIT_DECIMALS[unit]);
+}
+
+/**
+ * Check that a bbox is non-empty and lies within a page box
+ * @returns an error message, or null if the bbox is valid
+ */
+export function validateBboxInPage(bbox: PDFBBox, pageBox: PDFBBox, unit: LengthUnit = 'pt'): string | null {
+    const values = [bbox.left, bbox.bottom, bbox.right, bbox.top];
+    if (values.some(value => !Number.isFinite(value))) {
+        return 'Please enter a number in every field.';
+    }
+    if (bbox.right <= bbox.left || bbox.top <= bbox.bottom) {
+        return 'Width and height must be greater than zero.';
+    }
+
+    // Allow for rounding of displayed values
+    const epsilon = 0.01;
+    if (bbox.left < pageBox.left - epsilon || bbox.right > pageBox.right + epsilon) {
+        return `The box must stay within the page horizontally (${formatLength(pageBox.left, unit)} to ${formatLength(pageBox.right, unit)} ${unit}).`;
+    }
+    if (bbox.bottom < pageBox.bottom - epsilon || bbox.top > pageBox.top + epsilon) {
+        return `The box must stay within the page vertically (${formatLength(pageBox.bottom, unit)} to ${formatLength(pageBox.top, unit)} ${unit}).`;
+    }
+    return null;
+}
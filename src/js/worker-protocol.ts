@@ -0,0 +1,63 @@
+/**
+ * Worker Message Protocol
+ *
+ * Typed messages exchanged between the main thread (CropWorker) and the
+ * PDF processing worker (worker.ts). Every request carries an id that is
+ * echoed back on progress, result and error messages.
+ */
+
+import type { ErrorKind } from './errors';
+import type { PDFBBox } from './pdf-viewer';
+
+// Crop settings (plain data - WasmCropOptions is built inside the worker)
+export interface CropSettings {
+    margins: {
+        left: number;
+        top: number;
+        right: number;
+        bottom: number;
+    };
+    shrinkToContent: boolean;
+    clipContent: boolean;
+}
+
+// Bboxes keyed by 0-indexed page number
+export type PageBboxRecord = Record<number, PDFBBox>;
+
+// Extra clockwise rotation (90/180/270) keyed by 0-indexed page number
+export type PageRotationRecord = Record<number, number>;
+
+// A page that could not be processed (e.g. blank page during detection)
+export interface PageFailure {
+    page: number;
+    message: string;
+}
+
+// Main thread → worker
+export type WorkerRequest =
+    | { type: 'init'; id: number }
+    | { type: 'load'; id: number; data: Uint8Array; pageCount: number; password: string | null }
+    | { type: 'detect'; id: number; pages: number[] }
+    | {
+        type: 'crop';
+        id: number;
+        settings: CropSettings;
+        bboxes: PageBboxRecord | null;
+        pageRange: number[] | null;
+        rotations: PageRotationRecord | null;
+        outputPages: number[] | null;  // 0-indexed pages to write, in order (null = all)
+        protectOutput: boolean;  // Password-protected input: encrypt the output with the same password
+    }
+    | { type: 'cancel'; id: number };
+
+// Worker → main thread
+export type WorkerResponse =
+    | { type: 'ready'; id: number }
+    | { type: 'loaded'; id: number }
+    | { type: 'progress'; id: number; done: number; total: number; message: string }
+    | { type: 'detected'; id: number; bboxes: PageBboxRecord; failures: PageFailure[] }
+    | { type: 'cropped'; id: number; data: Uint8Array }
+    | { type: 'error'; id: number; message: string; kind: ErrorKind; name: string };
+
+// Progress callback used by the client API
+export type ProgressCallback = (done: number, total: number, message: string) => void;
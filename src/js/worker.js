@@ -1,14 +0,0 @@
-/**
- * Web Worker for PDF Processing
- *
- * This module will handle:
- * - Load WASM module in worker context
- * - Process PDF cropping in background (non-blocking UI)
- * - Progress updates via postMessage
- * - Error handling
- * - Optional: wasm-bindgen-rayon for parallel processing
- *
- * TO BE IMPLEMENTED IN PHASE 5
- */
-
-// TODO: Implement Web Worker for background PDF processing
@@ -0,0 +1,260 @@
+/**
+ * Web Worker for PDF Processing
+ *
+ * Owns the WASM instance and the loaded document bytes so that bbox
+ * detection and cropping never block the UI thread. Long operations are
+ * split per page, report progress via postMessage and check for
+ * cancellation between pages.
+ */
+
+import init, {
+    cropPdf,
+    detectBbox,
+    WasmCropOptions
+} from '../../pkg/pdfcrop';
+
+import { getErrorKind, getErrorMessage } from './errors';
+import { decryptPdf, finishOutput } from './pdf-postprocess';
+import type { PDFBBox } from './pdf-viewer';
+import type {
+    CropSettings,
+    PageBboxRecord,
+    PageFailure,
+    PageRotationRecord,
+    WorkerRequest,
+    WorkerResponse
+} from './worker-protocol';
+
+// Thrown inside handlers when the active request was cancelled
+class CancelledError extends Error {
+    constructor() {
+        super('Operation cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+// Worker state
+let wasmReady: Promise<unknown> | null = null;
+let pdfData: Uint8Array | null = null;  // Decrypted if the document is password-protected
+let pdfPassword: string | null = null;  // Password of an encrypted document
+let pageCount: number = 0;
+const openRequests = new Set<number>();  // Queued or running
+const cancelledRequests = new Set<number>();
+
+// Requests are processed one at a time; cancel messages bypass the queue
+let queue: Promise<void> = Promise.resolve();
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+        // A cancel for a request that already settled has nothing to stop
+        if (openRequests.has(request.id)) {
+            cancelledRequests.add(request.id);
+        }
+        return;
+    }
+
+    openRequests.add(request.id);
+    queue = queue.then(() => handleRequest(request));
+});
+
+/**
+ * Post a typed response to the main thread
+ */
+function respond(response: WorkerResponse, transfer: Transferable[] = []): void {
+    self.postMessage(response, { transfer });
+}
+
+/**
+ * Initialize the WASM module once
+ */
+function ensureWasm(): Promise<unknown> {
+    const ready = wasmReady ?? init();
+    wasmReady = ready;
+    return ready;
+}
+
+/**
+ * Yield to the event loop so pending cancel messages are delivered,
+ * then abort if this request was cancelled
+ */
+async function checkpoint(id: number): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (cancelledRequests.has(id)) {
+        throw new CancelledError();
+    }
+}
+
+/**
+ * Dispatch a request and report its result or error
+ */
+async function handleRequest(request: Exclude<WorkerRequest, { type: 'cancel' }>): Promise<void> {
+    const id = request.id;
+
+    try {
+        await ensureWasm();
+
+        switch (request.type) {
+            case 'init':
+                respond({ type: 'ready', id });
+                break;
+
+            case 'load':
+                // Don't keep the previous document if this one fails to decrypt
+                pdfData = null;
+                // The WASM module only reads unencrypted documents; this also
+                // covers documents PDF.js opened without a password
+                pdfData = await decryptPdf(request.data, request.password);
+                pageCount = request.pageCount;
+                pdfPassword = request.password;
+                respond({ type: 'loaded', id });
+                break;
+
+            case 'detect': {
+                const { bboxes, failures } = await detectPages(id, request.pages, 'Detecting');
+                respond({ type: 'detected', id, bboxes, failures });
+                break;
+            }
+
+            case 'crop': {
+                const data = await cropDocument(
+                    id,
+                    request.settings,
+                    request.bboxes,
+                    request.pageRange,
+                    request.rotations,
+                    request.outputPages,
+                    request.protectOutput
+                );
+                respond({ type: 'cropped', id, data }, [data.buffer]);
+                break;
+            }
+        }
+    } catch (error) {
+        respond({
+            type: 'error',
+            id,
+            message: getErrorMessage(error),
+            kind: getErrorKind(error),
+            name: error instanceof Error ? error.name : typeof error
+        });
+    } finally {
+        openRequests.delete(id);
+        cancelledRequests.delete(id);
+    }
+}
+
+/**
+ * Run bbox detection page by page (pages are 0-indexed)
+ */
+async function detectPages(
+    id: number,
+    pages: number[],
+    verb: string
+): Promise<{ bboxes: PageBboxRecord; failures: PageFailure[] }> {
+    const data = requireDocument();
+    const bboxes: PageBboxRecord = {};
+    const failures: PageFailure[] = [];
+
+    for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        respond({
+            type: 'progress',
+            id,
+            done: i,
+            total: pages.length,
+            message: `${verb} page ${page + 1} (${i + 1} of ${pages.length})...`
+        });
+        await checkpoint(id);
+
+        try {
+            const bbox = await detectBbox(data.slice(), page);
+            bboxes[page] = toPlainBbox(bbox);
+        } catch (error) {
+            failures.push({ page, message: getErrorMessage(error) });
+        }
+    }
+
+    return { bboxes, failures };
+}
+
+/**
+ * Crop the loaded document
+ *
+ * Pages in the range without an explicit bbox are detected first, one at a
+ * time, so progress can be reported and the crop cancelled between pages.
+ * Pages where detection fails are left for cropPdf to handle itself.
+ * Pages left out of the output are not detected.
+ */
+async function cropDocument(
+    id: number,
+    settings: CropSettings,
+    bboxes: PageBboxRecord | null,
+    pageRange: number[] | null,
+    rotations: PageRotationRecord | null,
+    outputPages: number[] | null,
+    protectOutput: boolean
+): Promise<Uint8Array> {
+    const data = requireDocument();
+    const pages = (pageRange ?? Array.from({ length: pageCount }, (_, i) => i))
+        .filter(page => !outputPages || outputPages.includes(page));
+    const missing = pages.filter(page => !bboxes || !(page in bboxes));
+
+    const detected = await detectPages(id, missing, 'Analyzing');
+    const allBboxes: PageBboxRecord = { ...(bboxes ?? {}), ...detected.bboxes };
+
+    respond({
+        type: 'progress',
+        id,
+        done: pages.length,
+        total: pages.length,
+        message: 'Writing cropped PDF...'
+    });
+    await checkpoint(id);
+
+    const options = new WasmCropOptions();
+    const { left, top, right, bottom } = settings.margins;
+    options.setMargins(left, top, right, bottom);
+    options.setShrinkToContent(settings.shrinkToContent);
+    options.setClipContent(settings.clipContent);
+
+    // Don't pass bboxes if none are known - WASM will auto-detect
+    const bboxesObject = Object.keys(allBboxes).length > 0 ? allBboxes : null;
+
+    const cropped: Uint8Array = await cropPdf(data.slice(), options, bboxesObject, pageRange);
+    await checkpoint(id);
+
+    // Rotated pages are written upright (added to each page's /Rotate), only
+    // the kept pages are written in the given order, and password-protected
+    // input is encrypted again unless the user opted out
+    const output = await finishOutput(cropped, {
+        rotations,
+        outputPages,
+        password: protectOutput ? pdfPassword : null
+    });
+    // Copy into a standalone buffer so it can be transferred
+    return output.slice();
+}
+
+/**
+ * Get the loaded document or fail
+ */
+function requireDocument(): Uint8Array {
+    if (!pdfData) {
+        throw new Error('No PDF document loaded in worker');
+    }
+    return pdfData;
+}
+
+/**
+ * Copy the fields of a WASM bbox into a cloneable object
+ */
+function toPlainBbox(bbox: PDFBBox): PDFBBox {
+    return {
+        left: bbox.left,
+        bottom: bbox.bottom,
+        right: bbox.right,
+        top: bbox.top
+    };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+    it.each([
+        { text: '', crc: 0 },
+        { text: '123456789', crc: 0xcbf43926 },
+        { text: 'The quick brown fox jumps over the lazy dog', crc: 0x414fa339 }
+    ])('"$text"', ({ text, crc }) => {
+        expect(crc32(encoder.encode(text))).toBe(crc);
+    });
+});
+
+describe('createZip', () => {
+    const modified = new Date(2024, 0, 15, 13, 45, 30);
+    const first = { name: 'one.pdf', data: encoder.encode('%PDF-1'), modified };
+    const second = { name: 'two.pdf', data: encoder.encode('%PDF-1.7 x'), modified };
+    const zip = createZip([first, second]);
+    const view = new DataView(zip.buffer);
+
+    // Local header + data: 30 + 7 + 6 and 30 + 7 + 10 bytes
+    const localOffsets = [0, 43];
+    const centralOffset = 90;
+    // Central directory headers: 46 + 7 bytes each
+    const centralSize = 106;
+    const endOffset = centralOffset + centralSize;
+
+    it('has the expected size', () => {
+        expect(zip.length).toBe(endOffset + 22);
+    });
+
+    it.each([
+        { entry: first, index: 0 },
+        { entry: second, index: 1 }
+    ])('writes the local header of $entry.name', ({ entry, index }) => {
+        const offset = localOffsets[index];
+        expect(view.getUint32(offset, true)).toBe(0x04034b50);
+        expect(view.getUint16(offset + 8, true)).toBe(0);
+        expect(view.getUint16(offset + 10, true)).toBe((13 << 11) | (45 << 5) | 15);
+        expect(view.getUint16(offset + 12, true)).toBe((44 << 9) | (1 << 5) | 15);
+        expect(view.getUint32(offset + 14, true)).toBe(crc32(entry.data));
+        expect(view.getUint32(offset + 18, true)).toBe(entry.data.length);
+        expect(view.getUint32(offset + 22, true)).toBe(entry.data.length);
+        expect(view.getUint16(offset + 26, true)).toBe(entry.name.length);
+        expect(new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + entry.name.length))).toBe(entry.name);
+        expect(zip.subarray(offset + 30 + entry.name.length, offset + 30 + entry.name.length + entry.data.length)).toEqual(entry.data);
+    });
+
+    it.each([
+        { entry: first, index: 0 },
+        { entry: second, index: 1 }
+    ])('writes the central directory header of $entry.name', ({ entry, index }) => {
+        const offset = centralOffset + index * 53;
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        expect(view.getUint32(offset + 16, true)).toBe(crc32(entry.data));
+        expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+        expect(view.getUint32(offset + 24, true)).toBe(entry.data.length);
+        expect(view.getUint16(offset + 28, true)).toBe(entry.name.length);
+        expect(view.getUint32(offset + 42, true)).toBe(localOffsets[index]);
+        expect(new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + entry.name.length))).toBe(entry.name);
+    });
+
+    it('writes the end of central directory record', () => {
+        expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+        expect(view.getUint16(endOffset + 8, true)).toBe(2);
+        expect(view.getUint16(endOffset + 10, true)).toBe(2);
+        expect(view.getUint32(endOffset + 12, true)).toBe(centralSize);
+        expect(view.getUint32(endOffset + 16, true)).toBe(centralOffset);
+        expect(view.getUint16(endOffset + 20, true)).toBe(0);
+    });
+
+    it('writes an empty archive', () => {
+        const empty = createZip([]);
+        expect(empty.length).toBe(22);
+        expect(new DataView(empty.buffer).getUint32(0, true)).toBe(0x06054b50);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Minimal ZIP Archive Writer
+ *
+ * Builds an uncompressed (stored) ZIP archive in memory. PDFs are already
+ * compressed internally, so deflating them again gains little; storing keeps
+ * this dependency-free and fast. Archives larger than 4 GB (ZIP64) are not
+ * supported.
+ */
+
+// A file to add to the archive
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+    modified?: Date;
+}
+
+// CRC-32 lookup table (IEEE polynomial)
+const CRC_TABLE: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Compute the CRC-32 checksum of a byte array
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to MS-DOS time and date fields
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Create a stored ZIP archive from the given entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+        const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+        // Local file header
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);     // Signature
+        lv.setUint16(4, 20, true);             // Version needed (2.0)
+        lv.setUint16(6, 0x0800, true);         // Flags: UTF-8 file name
+        lv.setUint16(8, 0, true);              // Method: stored
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, size, true);          // Compressed size
+        lv.setUint32(22, size, true);          // Uncompressed size
+        lv.setUint16(26, name.length, true);
+        lv.setUint16(28, 0, true);             // Extra field length
+        local.set(name, 30);
+
+        // Central directory header
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);     // Signature
+        cv.setUint16(4, 20, true);             // Version made by
+        cv.setUint16(6, 20, true);             // Version needed
+        cv.setUint16(8, 0x0800, true);         // Flags: UTF-8 file name
+        cv.setUint16(10, 0, true);             // Method: stored
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, size, true);
+        cv.setUint32(24, size, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint16(30, 0, true);             // Extra field length
+        cv.setUint16(32, 0, true);             // Comment length
+        cv.setUint16(34, 0, true);             // Disk number
+        cv.setUint16(36, 0, true);             // Internal attributes
+        cv.setUint32(38, 0, true);             // External attributes
+        cv.setUint32(42, offset, true);        // Local header offset
+        central.set(name, 46);
+
+        localParts.push(local, entry.data);
+        centralParts.push(central);
+        offset += local.length + size;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+
+    // End of central directory record
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);         // Signature
+    ev.setUint16(8, entries.length, true);     // Entries on this disk
+    ev.setUint16(10, entries.length, true);    // Total entries
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);            // Central directory offset
+
+    const parts = [...localParts, ...centralParts, end];
+    const result = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
@@ -3,6 +3,7 @@ module.exports = {
   content: [
     "./index.html",
     "./js/**/*.js",
+    "./src/**/*.ts",
     "./src/**/*.rs",
   ],
   theme: {
@@ -7,6 +7,14 @@ export default defineConfig({
     wasm(),
     topLevelAwait()
   ],
+  worker: {
+    // The processing worker imports the WASM module, so it needs the same plugins
+    format: 'es',
+    plugins: () => [
+      wasm(),
+      topLevelAwait()
+    ]
+  },
   build: {
     target: 'esnext',
     outDir: 'dist',